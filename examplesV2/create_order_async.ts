@@ -0,0 +1,39 @@
+require('dotenv').config();
+import * as BIP39 from "bip39";
+import { CreateOrderMsg, TradeHubSDK, TradeHubUtils } from '..';
+import "./_setup";
+
+const PARAMS: CreateOrderMsg = {
+  market: "swth_eth",
+  quantity: "109360",
+  type: "limit",
+  side: "buy",
+  is_reduce_only: false,
+  is_post_only: false,
+  price: "0.0000171",
+};
+
+(async () => {
+  const mnemonic = process.env.MNEMONICS ?? BIP39.generateMnemonic()
+  console.log("mnemonic:", mnemonic)
+
+  const sdk = new TradeHubSDK({
+    network: TradeHubSDK.Network.TestNet,
+    debugMode: true,
+  });
+
+  const connectedSDK = await sdk.connectWithMnemonic(mnemonic);
+  console.log("connected wallet:", connectedSDK.wallet.bech32Address);
+
+  const pendingTx = await connectedSDK.wallet.sendTx({
+    type: TradeHubUtils.TxTypes.Order.CREATE,
+    value: {
+      ...PARAMS,
+      originator: connectedSDK.wallet.bech32Address,
+    },
+  }, undefined, { mode: "sync" });
+  console.log("tx hash", pendingTx.txhash);
+
+  const tx = await pendingTx.confirm({ timeout: 30000 });
+  console.log("tx confirmed at height", tx.height);
+})().catch(console.error).finally(() => process.exit(0))
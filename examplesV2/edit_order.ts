@@ -36,7 +36,7 @@ const CREATE_PARAMS: RPCParams.CreateOrder = {
 
 
   const EDIT_PARAMS: RPCParams.EditOrder = {
-    id: JSON.parse(order.logs[0].log).order.order_id,
+    id: order.results[0].orderId,
     quantity: "100000",
     price: "0.0000180",
   }
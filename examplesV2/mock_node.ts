@@ -0,0 +1,40 @@
+import * as BIP39 from "bip39";
+import { CreateOrderMsg, TradeHubSDK } from '..';
+import { MockTradeHubNode } from '../build/main/mock';
+import "./_setup";
+
+const PARAMS: CreateOrderMsg = {
+  market: "eth1_usdc1",
+  quantity: "1",
+  type: "limit",
+  side: "buy",
+  is_reduce_only: false,
+  is_post_only: false,
+  price: "100",
+};
+
+(async () => {
+  const node = await new MockTradeHubNode().start();
+  console.log("mock node started", node.restURL, node.wsURL);
+
+  const sdk = new TradeHubSDK({
+    network: TradeHubSDK.Network.LocalHost,
+    debugMode: true,
+    config: node.getNetworkConfig(),
+  });
+
+  const connectedSDK = await sdk.connectWithMnemonic(BIP39.generateMnemonic());
+  const address = connectedSDK.wallet.bech32Address;
+  console.log("connected wallet:", address);
+
+  node.state.fund(address, "swth", "100");
+  node.state.fund(address, "usdc1", "1000");
+
+  const order = await connectedSDK.order.create(PARAMS);
+  console.log("create order response", order);
+
+  const balances = await connectedSDK.api.getWalletBalance({ account: address });
+  console.log("balances", balances);
+
+  await node.stop();
+})().catch(console.error).finally(() => process.exit(0))
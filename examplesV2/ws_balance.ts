@@ -17,6 +17,7 @@ import "./_setup";
   await connectedSDK.initialize();
 
   await connectedSDK.subscribeWallet((result) => {
-    console.log("ws", (result.data as any).result);
+    for (const denom in result.payload)
+      console.log("ws", denom, result.payload[denom].available.toString(10));
   });
 })().catch(console.error);
@@ -83,7 +83,7 @@ export class WsClient extends EventEmitter {
     this.socket.onclose = () => this.emit(ClientEvent.Disconnected)
 
     this.socket.onmessage = (message) => {
-      const data = JSON.parse(message.data)
+      const data = JSON.parse(message.data.toString())
       this.emit(ClientEvent.Message, data)
 
       // const { channel, result } = data
@@ -0,0 +1,218 @@
+import { Headers as NodeHeaders } from "node-fetch";
+import { RequestCallOpts, withTimeout } from "../../utils/fetch";
+import { RequestResult } from "./APIConnector";
+
+/**
+ * Request result with headers stored as [name, value] pairs, so that
+ * storage backends can serialize it.
+ */
+export interface APICachedResult extends Omit<RequestResult, "headers"> {
+  headers: [string, string][]
+}
+
+export interface APICacheEntry {
+  // unix timestamp in milliseconds after which the entry is stale
+  expiresAt: number
+  result: APICachedResult
+}
+
+/**
+ * Storage backend for cached responses, methods may be
+ * synchronous or return promises.
+ */
+export interface APICacheStorage {
+  get(key: string): APICacheEntry | undefined | Promise<APICacheEntry | undefined>
+  set(key: string, entry: APICacheEntry): void | Promise<void>
+  delete(key: string): void | Promise<void>
+  keys(): string[] | Promise<string[]>
+}
+
+export class MemoryCacheStorage implements APICacheStorage {
+  private entries: { [key: string]: APICacheEntry } = {}
+
+  get(key: string): APICacheEntry | undefined {
+    return this.entries[key]
+  }
+
+  set(key: string, entry: APICacheEntry) {
+    this.entries[key] = entry
+  }
+
+  delete(key: string) {
+    delete this.entries[key]
+  }
+
+  keys(): string[] {
+    return Object.keys(this.entries)
+  }
+}
+
+export interface APICacheOpts {
+  /**
+   * TTL in milliseconds keyed by endpoint path, merged into
+   * DEFAULT_CACHE_TTLS. Set a TTL of 0 to disable caching
+   * of an endpoint.
+   */
+  ttls?: { [path: string]: number }
+
+  storage?: APICacheStorage
+}
+
+const MINUTE = 60000
+
+/**
+ * Cache TTLs of slow changing endpoints, in milliseconds.
+ */
+export const DEFAULT_CACHE_TTLS: { [path: string]: number } = {
+  'tradehub/get_tokens': 5 * MINUTE,
+  'tradehub/get_token': 5 * MINUTE,
+  'tradehub/get_txns_fees': 5 * MINUTE,
+  'tradehub/get_vault_types': 5 * MINUTE,
+  'tradehub/coin/mapping': 5 * MINUTE,
+  'markets/get_markets': MINUTE,
+  'markets/get_market': MINUTE,
+  'markets/get_liquidity_pools': MINUTE,
+  'gov/parameters/deposit': 10 * MINUTE,
+  'gov/parameters/tallying': 10 * MINUTE,
+  'slashing/parameters': 10 * MINUTE,
+  'distribution/parameters': 10 * MINUTE,
+}
+
+interface InFlightRequest {
+  promise: Promise<RequestResult>
+  controller?: AbortController
+
+  // number of callers waiting for the result
+  waiters: number
+}
+
+/**
+ * TTL cache for GET responses, identical requests in flight at
+ * the same time share a single network request.
+ *
+ * The shared request is aborted only when every caller waiting for
+ * it has aborted or timed out.
+ *
+ * Callers receive copies of cached response data, so mutating
+ * a response does not affect the cache.
+ */
+export class APICache {
+  public readonly ttls: { [path: string]: number }
+  public readonly storage: APICacheStorage
+
+  private inFlight: { [key: string]: InFlightRequest } = {}
+
+  constructor(opts: APICacheOpts = {}) {
+    this.ttls = {
+      ...DEFAULT_CACHE_TTLS,
+      ...opts.ttls,
+    }
+    this.storage = opts.storage ?? new MemoryCacheStorage()
+  }
+
+  public static key(path: string, url: string): string {
+    return `${path} ${url}`
+  }
+
+  public getTTL(path: string): number {
+    return this.ttls[path] ?? 0
+  }
+
+  public isCached(path: string): boolean {
+    return this.getTTL(path) > 0
+  }
+
+  /**
+   * Returns the cached result if it is fresh, otherwise runs the
+   * request and caches its result.
+   *
+   * @param request called with the signal of the shared request
+   * @param opts signal and timeout of this caller, the caller stops
+   * waiting without affecting other callers of the shared request
+   */
+  public async fetch(path: string, url: string, request: (signal?: AbortSignal) => Promise<RequestResult>, opts: RequestCallOpts = {}): Promise<RequestResult> {
+    const key = APICache.key(path, url)
+
+    const entry = await this.storage.get(key)
+    if (entry && entry.expiresAt > Date.now())
+      return fromCachedResult(entry.result)
+
+    let inFlight = this.inFlight[key]
+    if (!inFlight) {
+      const controller = typeof AbortController !== "undefined" ? new AbortController() : undefined
+      const current: InFlightRequest = {
+        controller,
+        waiters: 0,
+        promise: (async () => {
+          try {
+            const result = await request(controller?.signal)
+            await this.storage.set(key, {
+              expiresAt: Date.now() + this.getTTL(path),
+              result: toCachedResult(result),
+            })
+            return result
+          } finally {
+            if (this.inFlight[key] === current)
+              delete this.inFlight[key]
+          }
+        })(),
+      }
+
+      // rejections are handled by the waiters, the request may
+      // be aborted after all of them have stopped waiting
+      current.promise.catch(() => undefined)
+      inFlight = this.inFlight[key] = current
+    }
+
+    inFlight.waiters += 1
+    try {
+      return copyResult(await withTimeout(inFlight.promise, opts, url))
+    } finally {
+      inFlight.waiters -= 1
+      if (inFlight.waiters === 0 && this.inFlight[key] === inFlight) {
+        delete this.inFlight[key]
+        inFlight.controller?.abort()
+      }
+    }
+  }
+
+  /**
+   * Removes cached results of an endpoint path, or all cached
+   * results if path is not provided.
+   */
+  public async invalidate(path?: string): Promise<void> {
+    const keys = await this.storage.keys()
+    for (const key of keys) {
+      if (path === undefined || key.startsWith(`${path} `))
+        await this.storage.delete(key)
+    }
+  }
+}
+
+const copyData = (data: any) => data === undefined ? undefined : JSON.parse(JSON.stringify(data))
+
+const copyResult = (result: RequestResult): RequestResult => ({
+  ...result,
+  data: copyData(result.data),
+})
+
+const toCachedResult = (result: RequestResult): APICachedResult => {
+  const headers: [string, string][] = []
+  result.headers?.forEach?.((value, name) => headers.push([name, value]))
+  return {
+    ...result,
+    headers,
+    data: copyData(result.data),
+  }
+}
+
+const fromCachedResult = (result: APICachedResult): RequestResult => {
+  const headers = typeof Headers !== "undefined"
+    ? new Headers(result.headers)
+    : new NodeHeaders(result.headers) as unknown as Headers
+  return {
+    ...result,
+    headers,
+    data: copyData(result.data),
+  }
+}
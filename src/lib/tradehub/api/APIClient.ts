@@ -4,7 +4,10 @@ import { RestModels } from '../models';
 import { Oracle } from '../models/rest';
 import { RestTypes } from '../sdk';
 import { bnOrZero, BN_ONE, BN_ZERO, BroadcastTx, SimpleMap } from '../utils';
-import APIManager, { RequestError, RequestResult, ResponseParser } from './APIConnector';
+import { RequestCallOpts } from '../../utils/fetch';
+import APIManager, { APIManagerOpts, RequestError, RequestResult, ResponseParser } from './APIConnector';
+import { iteratePages, IterateOpts } from './pagination';
+import ParsedAPIClient from './ParsedAPIClient';
 import {
   CheckUserNameOpts, CosmosResponse, GetAccountOpts, GetAccountRealizedPnlOpts, GetAccountResponse,
   GetAccountTradesOpts,
@@ -53,6 +56,7 @@ import {
   GetTxsOpts,
   GetUnbondedStakingValidatorsResponse,
   GetUnbondingStakingValidatorsResponse,
+  GetVaultsOpts,
   GetWalletBalanceOpts,
   GovDepositParamsResponse, GovListProposalResponse, GovLiveTallyResponse,
   GovProposerResponse, GovTallyParamsResponse, ListGovProposalOpts, ListValidatorDelegationsOpts, ListValidatorDelegationsResponse,
@@ -62,7 +66,7 @@ import {
   TradehubEndpoints
 } from './spec';
 
-export interface APIClientOpts {
+export interface APIClientOpts extends APIManagerOpts {
   debugMode?: boolean
 }
 
@@ -70,18 +74,51 @@ class APIClient {
   public readonly apiManager: APIManager<typeof TradehubEndpoints>
   public readonly debugMode: boolean
 
+  // queries returning models decoded into BigNumber, Dayjs and numbers
+  public readonly parsed: ParsedAPIClient
+
   public static DEBUG_HEADERS: boolean = false
 
+  /**
+   * @param restUrl REST URL, or list of REST URLs to fail over
+   * to when the preceding URLs are unhealthy.
+   */
   constructor(
-    restUrl: string,
+    restUrl: string | string[],
     opts?: APIClientOpts,
   ) {
     const responseParser: ResponseParser = this.parseResponse.bind(this);
-    this.apiManager = new APIManager(restUrl, TradehubEndpoints, responseParser)
+    this.apiManager = new APIManager(restUrl, TradehubEndpoints, responseParser, opts)
+    this.parsed = new ParsedAPIClient(this)
 
     this.debugMode = opts?.debugMode ?? false
   }
 
+  /**
+   * Removes cached responses of an endpoint, e.g. 'tradehub/get_tokens',
+   * or all cached responses if path is not provided.
+   */
+  async invalidateCache(path?: keyof typeof TradehubEndpoints): Promise<void> {
+    await this.apiManager.cache?.invalidate(path)
+  }
+
+  /**
+   * Returns a view of this client that applies the signal and timeout
+   * to all of its requests.
+   *
+   * @example
+   * const controller = new AbortController()
+   * const markets = await api.withRequestOpts({ signal: controller.signal, timeout: 5000 }).getMarkets()
+   */
+  withRequestOpts(opts: RequestCallOpts): APIClient {
+    const client: APIClient = Object.create(this)
+    Object.assign(client, {
+      apiManager: this.apiManager.withRequestOpts(opts),
+      parsed: new ParsedAPIClient(client),
+    })
+    return client
+  }
+
   async parseResponse(response: Response): Promise<RequestResult> {
     const { status, statusText, headers, url } = response
     const result: RequestResult = { status, statusText, headers, url }
@@ -151,7 +188,7 @@ class APIClient {
     return response.data as RestModels.Txn[]
   }
 
-  async getTxsPaged(opts: GetTxsOpts): Promise<ResultsMinMax<RestModels.Txn[]>> {
+  async getTxsPaged(opts: GetTxsOpts): Promise<ResultsMinMax<RestModels.Txn>> {
     const queryParams = {
       address: opts.address,
       msg_type: opts.msg_type,
@@ -167,7 +204,11 @@ class APIClient {
     const routeParams = {}
     const request = this.apiManager.path('tradehub/get_txs', routeParams, queryParams)
     const response = await request.get()
-    return response.data as ResultsMinMax<RestModels.Txn[]>
+    return response.data as ResultsMinMax<RestModels.Txn>
+  }
+
+  iterateTxs(opts: GetTxsOpts = {}, iterateOpts?: IterateOpts): AsyncGenerator<RestModels.Txn, void, undefined> {
+    return iteratePages((pageOpts) => this.getTxsPaged(pageOpts), opts, (txn) => txn.id, iterateOpts)
   }
 
   async getTxnFees(): Promise<SimpleMap<BigNumber>> {
@@ -223,6 +264,10 @@ class APIClient {
     return response.data as ResultsMinMax<RestModels.Block>
   }
 
+  iterateBlocks(opts: GetBlocksOpts = {}, iterateOpts?: IterateOpts): AsyncGenerator<RestModels.Block, void, undefined> {
+    return iteratePages((pageOpts) => this.getBlocksPaged(pageOpts), opts, (block) => block.block_height, iterateOpts)
+  }
+
   // response data, evidence null | unknown
   async getCosmosBlockInfo(opts: GetCosmosBlockInfoOpts): Promise<RestModels.CosmosBlock> {
     const request = this.apiManager.path('tradehub/get_cosmos_block', opts)
@@ -266,6 +311,20 @@ class APIClient {
     return response.data as RestModels.UserToken[]
   }
 
+  async getVaultTypes(): Promise<RestModels.VaultType[]> {
+    const request = this.apiManager.path('tradehub/get_vault_types')
+    const response = await request.get()
+    return response.data as RestModels.VaultType[]
+  }
+
+  async getVaults(opts: GetVaultsOpts): Promise<RestModels.Vault[]> {
+    const queryParams = { address: opts.address }
+    const routeParams = {}
+    const request = this.apiManager.path('tradehub/get_vaults', routeParams, queryParams)
+    const response = await request.get()
+    return response.data as RestModels.Vault[]
+  }
+
   async search(keyword: string): Promise<RestModels.SearchResult> {
     const queryParams = { keyword }
     const request = this.apiManager.path('tradehub/search', {}, queryParams)
@@ -401,6 +460,10 @@ class APIClient {
     return response.data as RestTypes.ResultsMinMax<RestModels.Position>
   }
 
+  iteratePositions(opts: GetPositionsOpts = {}, iterateOpts?: IterateOpts): AsyncGenerator<RestModels.Position, void, undefined> {
+    return iteratePages((pageOpts) => this.getPositionsPaged(pageOpts), opts, (position) => position.position_id, iterateOpts)
+  }
+
   async getOrder(opts: GetOrderOpts): Promise<RestModels.Order> {
     const queryParams = { order_id: opts.order_id }
     const request = this.apiManager.path('history/get_order', {}, queryParams)
@@ -445,6 +508,10 @@ class APIClient {
     return response.data as ResultsMinMax<RestModels.Order>
   }
 
+  iterateOrders(opts: GetOrdersOpts = {}, iterateOpts?: IterateOpts): AsyncGenerator<RestModels.Order, void, undefined> {
+    return iteratePages((pageOpts) => this.getOrdersPaged(pageOpts), opts, (order) => order.id, iterateOpts)
+  }
+
   async getAccountTrades(opts: GetAccountTradesOpts): Promise<RestModels.AccountTrade[]> {
     const queryParams = {
       account: opts.account,
@@ -476,6 +543,10 @@ class APIClient {
     return response.data as ResultsMinMax<RestModels.AccountTrade>
   }
 
+  iterateAccountTrades(opts: GetAccountTradesOpts, iterateOpts?: IterateOpts): AsyncGenerator<RestModels.AccountTrade, void, undefined> {
+    return iteratePages((pageOpts) => this.getAccountTradesPaged(pageOpts), opts, (trade) => trade.id, iterateOpts)
+  }
+
   async getTrades(opts: GetTradesOpts): Promise<RestModels.Trade[]> {
     const queryParams = {
       account: opts.account,
@@ -485,6 +556,7 @@ class APIClient {
       after_id: opts.after_id,
       before_block: opts.before_block,
       after_block: opts.after_block,
+      order_by: opts.order_by,
     }
     const routeParams = {}
     const request = this.apiManager.path('history/get_trades', routeParams, queryParams)
@@ -501,6 +573,7 @@ class APIClient {
       after_id: opts.after_id,
       before_block: opts.before_block,
       after_block: opts.after_block,
+      order_by: opts.order_by,
       pagination: true,
     }
     const routeParams = {}
@@ -509,6 +582,10 @@ class APIClient {
     return response.data as ResultsMinMax<RestModels.Trade>
   }
 
+  iterateTrades(opts: GetTradesOpts = {}, iterateOpts?: IterateOpts): AsyncGenerator<RestModels.Trade, void, undefined> {
+    return iteratePages((pageOpts) => this.getTradesPaged(pageOpts), opts, (trade) => trade.id, iterateOpts)
+  }
+
   async getLiquidationTrades(): Promise<RestModels.AccountTrade[]> {
     const request = this.apiManager.path('history/get_liquidation_trades')
     const response = await request.get()
@@ -1,5 +1,8 @@
 import { logger } from '../../utils'
-import fetch from '../../utils/fetch'
+import fetch, { DEFAULT_REQUEST_TIMEOUT, isAbortError, RequestAbortedError, RequestCallOpts, withTimeout } from '../../utils/fetch'
+import { sleep } from '../utils'
+import { APICache, APICacheOpts } from './APICache'
+import { APIRateLimitOpts, RateLimiter } from './RateLimiter'
 import querystring from 'query-string'
 
 export interface RequestResult {
@@ -104,10 +107,12 @@ export class HTTP<PathSpecs> {
   /**
    * Executes HTTP GET request with fetch
    */
-  public get = ({ url, headers }: any) => {
+  public get = ({ url, headers, signal, timeout }: any) => {
     return fetch(url, {
       method: 'GET',
       headers,
+      signal,
+      timeout,
     })
   }
 
@@ -122,6 +127,8 @@ export class HTTP<PathSpecs> {
         ...options.headers,
       },
       body: JSON.stringify(options.body),
+      signal: options.signal,
+      timeout: options.timeout,
     })
   }
 
@@ -136,6 +143,8 @@ export class HTTP<PathSpecs> {
         ...options.headers,
       },
       body: JSON.stringify(options.body),
+      signal: options.signal,
+      timeout: options.timeout,
     })
   }
 
@@ -174,6 +183,7 @@ const defaultResponseParser: ResponseParser = async (response: Response) => {
 
 type RequestOpts = Omit<RequestInit, "body"> & {
   body?: any;
+  timeout?: number;
 };
 
 export type APIRequester = (options?: RequestOpts, parser?: ResponseParser) => Promise<RequestResult>
@@ -194,31 +204,430 @@ export interface APIHandler<M extends EndpointMap> {
   ) => APIExecutor
 }
 
+export interface APIRetryOpts {
+  /**
+   * Number of times a failed GET request is retried, defaults to 2.
+   * Other request methods are never retried as they may not be idempotent.
+   */
+  maxRetries?: number
+
+  /**
+   * Base delay in milliseconds of the exponential backoff, defaults to 200ms.
+   */
+  baseDelay?: number
+
+  /**
+   * Max delay in milliseconds between retries, defaults to 5000ms.
+   */
+  maxDelay?: number
+
+  /**
+   * Number of times a request rejected with HTTP 429 is retried after
+   * waiting for its Retry-After header, defaults to 3. Applies to all
+   * request methods as rate limited requests are not processed.
+   */
+  maxRateLimitRetries?: number
+
+  /**
+   * Max Retry-After duration in milliseconds to wait for, longer
+   * durations throw the RequestError instead, defaults to 60000ms.
+   */
+  maxRetryAfter?: number
+}
+
+export interface APIRequest {
+  method: RequestMethod
+  url: string
+  // endpoint key, e.g. tradehub/get_tx
+  path: string
+  // URL prefix of the endpoint selected for this attempt
+  apiPrefix: string
+  options: RequestOpts
+}
+
+/**
+ * Middleware wrapping each request attempt, call `next` to continue
+ * the chain with a (possibly modified) request, and transform or
+ * map errors of the returned result.
+ *
+ * Middlewares run for each attempt, including retries.
+ *
+ * @example
+ * const timing: APIMiddleware = async (request, next) => {
+ *   const start = Date.now()
+ *   try {
+ *     return await next(request)
+ *   } finally {
+ *     console.log(request.url, Date.now() - start)
+ *   }
+ * }
+ */
+export type APIMiddleware = (request: APIRequest, next: (request: APIRequest) => Promise<RequestResult>) => Promise<RequestResult>
+
+/**
+ * Creates a middleware that transforms requests before they are sent,
+ * e.g. to add auth headers.
+ */
+export const requestInterceptor = (interceptor: (request: APIRequest) => APIRequest | Promise<APIRequest>): APIMiddleware => {
+  return async (request, next) => next(await interceptor(request))
+}
+
+/**
+ * Creates a middleware that transforms successfully parsed responses.
+ */
+export const responseInterceptor = (interceptor: (result: RequestResult, request: APIRequest) => RequestResult | Promise<RequestResult>): APIMiddleware => {
+  return async (request, next) => interceptor(await next(request), request)
+}
+
+/**
+ * Creates a middleware that maps request errors, the interceptor
+ * should return the error to be thrown.
+ */
+export const errorInterceptor = (interceptor: (error: any, request: APIRequest) => any): APIMiddleware => {
+  return async (request, next) => {
+    try {
+      return await next(request)
+    } catch (error) {
+      throw await interceptor(error, request)
+    }
+  }
+}
+
+export interface APIManagerOpts {
+  retry?: APIRetryOpts
+  middlewares?: APIMiddleware[]
+
+  /**
+   * Enables caching of GET responses for endpoints with a TTL,
+   * disabled by default.
+   */
+  cache?: APICacheOpts
+
+  /**
+   * Duration in milliseconds that a failing endpoint is skipped
+   * for, defaults to 30000ms.
+   */
+  unhealthyCooldown?: number
+
+  /**
+   * Duration in milliseconds before each request attempt is aborted
+   * with RequestTimeoutError, defaults to 30000ms.
+   */
+  timeout?: number
+
+  /**
+   * Limits the request rate and number of concurrent requests,
+   * disabled by default.
+   */
+  rateLimit?: APIRateLimitOpts
+}
+
+export type RequestMethod = keyof APIExecutor
+
+const DEFAULT_MAX_RETRIES = 2
+const DEFAULT_RETRY_BASE_DELAY = 200
+const DEFAULT_RETRY_MAX_DELAY = 5000
+const DEFAULT_UNHEALTHY_COOLDOWN = 30000
+const DEFAULT_MAX_RATE_LIMIT_RETRIES = 3
+const DEFAULT_MAX_RETRY_AFTER = 60000
+
+/**
+ * Network errors and 5xx responses may succeed on retry,
+ * other errors are returned to the caller immediately.
+ */
+export const isRetryableError = (error: any): boolean => {
+  // aborted by the caller
+  if (isAbortError(error))
+    return false
+
+  if (error instanceof RequestError) {
+    // tendermint returns JSON-RPC errors with HTTP 500, the node is
+    // healthy and retrying the request returns the same error
+    if (error.result.data?.jsonrpc && error.result.data?.error)
+      return false
+
+    return error.result.status >= 500
+  }
+
+  return true
+}
+
+/**
+ * Returns the duration in milliseconds to wait for if the error
+ * is a HTTP 429 response, or undefined for other errors.
+ *
+ * Retry-After may be either a number of seconds or a HTTP date,
+ * returns 0 if the header is missing or malformed.
+ */
+export const getRetryAfter = (error: any): number | undefined => {
+  if (!(error instanceof RequestError) || error.result.status !== 429)
+    return undefined
+
+  const header = error.result.headers?.get?.("retry-after")?.trim()
+  if (!header)
+    return 0
+
+  if (/^\d+(\.\d+)?$/.test(header))
+    return Math.ceil(parseFloat(header) * 1000)
+
+  const date = Date.parse(header)
+  return isNaN(date) ? 0 : Math.max(0, date - Date.now())
+}
+
 class APIManager<M extends EndpointMap> implements APIHandler<M> {
+  public readonly apiPrefix: string
+  public readonly apiPrefixes: string[]
   public readonly http: HTTP<M>
 
+  public readonly retry: Required<APIRetryOpts>
+  public readonly unhealthyCooldown: number
+  public readonly middlewares: APIMiddleware[]
+  public readonly cache?: APICache
+  public readonly timeout: number
+  public readonly rateLimiter?: RateLimiter
+  public readonly endpointRateLimiters: { [path: string]: RateLimiter } = {}
+
+  // request options applied to all requests, see withRequestOpts
+  protected defaultRequestOpts: RequestCallOpts = {}
+
+  // timestamp until which an endpoint is skipped, keyed by api prefix
+  private unhealthyUntil: { [apiPrefix: string]: number } = {}
+  private readonly https: HTTP<M>[]
+
+  /**
+   * @param apiPrefix URL or list of URLs serving the same endpoints,
+   * requests are sent to the first healthy URL in the list.
+   */
   constructor(
-    public readonly apiPrefix: string,
+    apiPrefix: string | string[],
     public readonly endpoints: M,
     public readonly responseParser: ResponseParser = defaultResponseParser,
+    opts: APIManagerOpts = {},
   ) {
-    this.http = new HTTP(apiPrefix, endpoints)
+    this.apiPrefixes = typeof apiPrefix === "string" ? [apiPrefix] : apiPrefix
+    if (!this.apiPrefixes.length)
+      throw new Error("at least one api prefix is required")
+
+    this.apiPrefix = this.apiPrefixes[0]
+    this.https = this.apiPrefixes.map((prefix) => new HTTP(prefix, endpoints))
+    this.http = this.https[0]
+
+    this.retry = {
+      maxRetries: opts.retry?.maxRetries ?? DEFAULT_MAX_RETRIES,
+      baseDelay: opts.retry?.baseDelay ?? DEFAULT_RETRY_BASE_DELAY,
+      maxDelay: opts.retry?.maxDelay ?? DEFAULT_RETRY_MAX_DELAY,
+      maxRateLimitRetries: opts.retry?.maxRateLimitRetries ?? DEFAULT_MAX_RATE_LIMIT_RETRIES,
+      maxRetryAfter: opts.retry?.maxRetryAfter ?? DEFAULT_MAX_RETRY_AFTER,
+    }
+    this.unhealthyCooldown = opts.unhealthyCooldown ?? DEFAULT_UNHEALTHY_COOLDOWN
+    this.middlewares = [...opts.middlewares ?? []]
+    if (opts.cache)
+      this.cache = new APICache(opts.cache)
+    this.timeout = opts.timeout ?? DEFAULT_REQUEST_TIMEOUT
+
+    if (opts.rateLimit) {
+      const { endpoints = {}, ...limits } = opts.rateLimit
+      if (limits.requestsPerSecond !== undefined || limits.maxConcurrency !== undefined)
+        this.rateLimiter = new RateLimiter(limits)
+      for (const path in endpoints)
+        this.endpointRateLimiters[path] = new RateLimiter(endpoints[path])
+    }
+  }
+
+  /**
+   * Returns the limiter of the endpoint path, or the shared limiter
+   * if the path has no limits of its own.
+   */
+  public getRateLimiter(path: string): RateLimiter | undefined {
+    return this.endpointRateLimiters[path] ?? this.rateLimiter
+  }
+
+  /**
+   * Returns a view of this manager that applies the signal and timeout
+   * to all requests, sharing endpoint health, cache and middlewares.
+   */
+  public withRequestOpts(opts: RequestCallOpts): APIManager<M> {
+    const scoped: APIManager<M> = Object.create(this)
+    scoped.defaultRequestOpts = {
+      ...this.defaultRequestOpts,
+      ...opts,
+    }
+    return scoped
+  }
+
+  /**
+   * Appends middlewares to the chain, middlewares added first
+   * are the outermost.
+   */
+  public use(...middlewares: APIMiddleware[]): APIManager<M> {
+    this.middlewares.push(...middlewares)
+    return this
+  }
+
+  public isHealthy(apiPrefix: string): boolean {
+    return (this.unhealthyUntil[apiPrefix] ?? 0) <= Date.now()
+  }
+
+  public markUnhealthy(apiPrefix: string) {
+    this.unhealthyUntil[apiPrefix] = Date.now() + this.unhealthyCooldown
+  }
+
+  public markHealthy(apiPrefix: string) {
+    delete this.unhealthyUntil[apiPrefix]
   }
 
-  private createExecutor = (url: string): APIExecutor => ({
-    get: async (options: RequestOpts = {}, parser: ResponseParser = this.responseParser) => this.http.get({ url, ...options }).then(parser),
-    post: async (options: RequestOpts = {}, parser: ResponseParser = this.responseParser) => this.http.post({ url, ...options }).then(parser),
-    delete: async (options: RequestOpts = {}, parser: ResponseParser = this.responseParser) => this.http.del({ url, ...options }).then(parser),
-    raw: async (options: RequestOpts = {}, parser: ResponseParser = this.responseParser) => this.http.raw({ url, ...options }).then(parser),
-  })
+  /**
+   * Returns the first healthy endpoint, or the endpoint whose
+   * cooldown ends the earliest if all endpoints are unhealthy.
+   */
+  private selectHttp(): HTTP<M> {
+    const healthy = this.https.find((http) => this.isHealthy(http.apiPrefix))
+    if (healthy)
+      return healthy
+
+    return this.https.reduce((earliest, http) => {
+      return this.unhealthyUntil[http.apiPrefix] < this.unhealthyUntil[earliest.apiPrefix] ? http : earliest
+    })
+  }
+
+  private getRetryDelay(attempt: number): number {
+    const delay = Math.min(this.retry.maxDelay, this.retry.baseDelay * Math.pow(2, attempt))
+    // equal jitter, spreads out retries of concurrent requests
+    return delay / 2 + Math.random() * delay / 2
+  }
+
+  private send(http: HTTP<M>, method: RequestMethod, url: string, options: RequestOpts): Promise<Response> {
+    switch (method) {
+      case "get": return http.get({ url, ...options })
+      case "post": return http.post({ url, ...options })
+      case "delete": return http.del({ url, ...options })
+      case "raw": return http.raw({ url, ...options })
+    }
+  }
+
+  private dispatch(request: APIRequest, handler: (request: APIRequest) => Promise<RequestResult>): Promise<RequestResult> {
+    const run = (index: number, current: APIRequest): Promise<RequestResult> => {
+      const middleware = this.middlewares[index]
+      if (!middleware)
+        return handler(current)
+
+      return middleware(current, (next) => run(index + 1, next))
+    }
+    return run(0, request)
+  }
+
+  private async request(
+    method: RequestMethod,
+    pathArgs: Parameters<HTTP<M>["path"]>,
+    options: RequestOpts,
+    parser: ResponseParser,
+  ): Promise<RequestResult> {
+    const path = pathArgs[0] as string
+    if (method === "get" && this.cache?.isCached(path)) {
+      const url = this.http.path(...pathArgs)
+      // the shared request outlives callers that abort or time out,
+      // it is aborted once all callers stopped waiting
+      const { signal, timeout, ...sharedOptions } = options
+      return this.cache.fetch(path, url, (sharedSignal) => {
+        return this.requestWithRetry(method, pathArgs, { ...sharedOptions, signal: sharedSignal }, parser)
+      }, { signal: signal ?? undefined, timeout })
+    }
+
+    return this.requestWithRetry(method, pathArgs, options, parser)
+  }
+
+  private async requestWithRetry(
+    method: RequestMethod,
+    pathArgs: Parameters<HTTP<M>["path"]>,
+    options: RequestOpts,
+    parser: ResponseParser,
+  ): Promise<RequestResult> {
+    const maxRetries = method === "get" ? this.retry.maxRetries : 0
+    const timeout = options.timeout ?? this.timeout
+    const signal = options.signal ?? undefined
+    const rateLimiter = this.getRateLimiter(pathArgs[0] as string)
+
+    let attempt = 0
+    let rateLimitAttempt = 0
+    let lastHttp: HTTP<M> | undefined
+    while (true) {
+      const http = this.selectHttp()
+
+      // fail over to another endpoint immediately, back off
+      // only when retrying the same endpoint
+      if (http === lastHttp)
+        await withTimeout(sleep(this.getRetryDelay(attempt - 1)), { signal })
+      lastHttp = http
+
+      if (signal?.aborted)
+        throw new RequestAbortedError()
+
+      try {
+        const request: APIRequest = {
+          method,
+          url: http.path(...pathArgs),
+          path: pathArgs[0] as string,
+          apiPrefix: http.apiPrefix,
+          options: { ...options, timeout },
+        }
+        const send = () => {
+          // timeout covers reading of the response body as well
+          return withTimeout(this.dispatch(request, async (current) => {
+            const response = await this.send(http, current.method, current.url, current.options)
+            return parser(response)
+          }), { timeout, signal }, request.url)
+        }
+        const result = await (rateLimiter ? rateLimiter.run(send, signal) : send())
+        this.markHealthy(http.apiPrefix)
+        return result
+      } catch (error) {
+        const retryAfter = getRetryAfter(error)
+        if (retryAfter !== undefined && retryAfter <= this.retry.maxRetryAfter && rateLimitAttempt < this.retry.maxRateLimitRetries) {
+          // endpoint is responsive, wait and retry without counting
+          // towards maxRetries
+          this.markHealthy(http.apiPrefix)
+          const delay = retryAfter || this.getRetryDelay(rateLimitAttempt)
+          rateLimitAttempt += 1
+          rateLimiter?.pause(delay)
+          await withTimeout(sleep(delay), { signal })
+          lastHttp = undefined
+          continue
+        }
+
+        if (!isRetryableError(error)) {
+          // endpoint responded, error is caused by the request
+          this.markHealthy(http.apiPrefix)
+          throw error
+        }
+
+        this.markUnhealthy(http.apiPrefix)
+        if (attempt >= maxRetries)
+          throw error
+        attempt += 1
+      }
+    }
+  }
+
+  // a method rather than an arrow function property, so that views
+  // created by withRequestOpts apply their own request options
+  private createExecutor(pathArgs: Parameters<HTTP<M>["path"]>): APIExecutor {
+    const execute = (method: RequestMethod) => async (options: RequestOpts = {}, parser: ResponseParser = this.responseParser) => {
+      return this.request(method, pathArgs, { ...this.defaultRequestOpts, ...options }, parser)
+    }
+    return {
+      get: execute("get"),
+      post: execute("post"),
+      delete: execute("delete"),
+      raw: execute("raw"),
+    }
+  }
 
   public path(
     path: keyof M,
     routeParams?: PathParams,
     queryParams?: PathParams,
   ): APIExecutor {
-    const url = this.http.path(path, routeParams, queryParams)
-    return this.createExecutor(url)
+    return this.createExecutor([path, routeParams, queryParams])
   }
 }
 
@@ -0,0 +1,90 @@
+import { ParsedModels } from '../models';
+import APIClient from './APIClient';
+import { GetCandlesticksOpts, GetMarketOpts, GetMarketsOpts, GetPositionOpts, GetPositionsOpts, GetTxsOpts, GetVaultsOpts, GetWalletBalanceOpts, ResultsMinMax } from './spec';
+
+/**
+ * APIClient queries that return decoded models, with amounts and
+ * prices as BigNumber, times as Dayjs and block heights as numbers.
+ *
+ * Decoders throw ModelDecodeError if a required field is missing
+ * or a value is malformed.
+ *
+ * @example
+ * const markets = await api.parsed.getMarkets();
+ * markets[0].tick_size.times(2);
+ */
+class ParsedAPIClient {
+  constructor(
+    public readonly api: APIClient,
+  ) { }
+
+  async getMarket(opts: GetMarketOpts): Promise<ParsedModels.Market> {
+    return ParsedModels.decodeMarket(await this.api.getMarket(opts))
+  }
+
+  async getMarkets(opts: GetMarketsOpts = {}): Promise<ParsedModels.Market[]> {
+    const markets = await this.api.getMarkets(opts)
+    return markets.map(ParsedModels.decodeMarket)
+  }
+
+  async getPosition(opts: GetPositionOpts = {}): Promise<ParsedModels.Position> {
+    return ParsedModels.decodePosition(await this.api.getPosition(opts))
+  }
+
+  async getPositions(opts: GetPositionsOpts = {}): Promise<ParsedModels.Position[]> {
+    const positions = await this.api.getPositions(opts)
+    return positions.map(ParsedModels.decodePosition)
+  }
+
+  async getPositionsPaged(opts: GetPositionsOpts = {}): Promise<ResultsMinMax<ParsedModels.Position>> {
+    const result = await this.api.getPositionsPaged(opts)
+    return {
+      ...result,
+      data: result.data.map(ParsedModels.decodePosition),
+    }
+  }
+
+  async getWalletBalance(opts: GetWalletBalanceOpts): Promise<ParsedModels.Balances> {
+    return ParsedModels.decodeBalances(await this.api.getWalletBalance(opts))
+  }
+
+  async getTotalBalances(): Promise<ParsedModels.Balance[]> {
+    const balances = await this.api.getTotalBalances()
+    return balances.map(ParsedModels.decodeBalance)
+  }
+
+  async getCandlesticks(opts: GetCandlesticksOpts): Promise<ParsedModels.Candlestick[]> {
+    const candlesticks = await this.api.getCandlesticks(opts)
+    return candlesticks.map(ParsedModels.decodeCandlestick)
+  }
+
+  async getLiquidityPools(): Promise<ParsedModels.LiquidityPool[]> {
+    const pools = await this.api.getLiquidityPools()
+    return pools.map(ParsedModels.decodeLiquidityPool)
+  }
+
+  async getTxs(opts: GetTxsOpts): Promise<ParsedModels.Txn[]> {
+    const txs = await this.api.getTxs(opts)
+    return txs.map(ParsedModels.decodeTxn)
+  }
+
+  async getTxsPaged(opts: GetTxsOpts): Promise<ResultsMinMax<ParsedModels.Txn>> {
+    const result = await this.api.getTxsPaged(opts)
+    return {
+      ...result,
+      data: result.data.map(ParsedModels.decodeTxn),
+    }
+  }
+
+  async getVaultTypes(): Promise<ParsedModels.VaultType[]> {
+    const vaultTypes = await this.api.getVaultTypes()
+    return vaultTypes.map(ParsedModels.decodeVaultType)
+  }
+
+  async getVaults(opts: GetVaultsOpts): Promise<ParsedModels.Vault[]> {
+    const vaults = await this.api.getVaults(opts)
+    return vaults.map(ParsedModels.decodeVault)
+  }
+}
+
+export default ParsedAPIClient
@@ -0,0 +1,164 @@
+import { RequestAbortedError } from "../../utils/fetch";
+
+export interface RateLimitOpts {
+  /**
+   * Rate at which the token bucket refills, unlimited if not provided.
+   */
+  requestsPerSecond?: number
+
+  /**
+   * Max number of requests that can be sent at once after the limiter
+   * is idle, defaults to requestsPerSecond (min 1).
+   */
+  burst?: number
+
+  /**
+   * Max number of requests in flight at the same time, unlimited
+   * if not provided.
+   */
+  maxConcurrency?: number
+}
+
+export interface APIRateLimitOpts extends RateLimitOpts {
+  /**
+   * Limits keyed by endpoint path, e.g. 'tradehub/get_txs'. Requests
+   * to these endpoints use their own limiter instead of the shared one.
+   */
+  endpoints?: { [path: string]: RateLimitOpts }
+}
+
+interface Waiter {
+  resolve: () => void
+  reject: (error: Error) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+/**
+ * Token bucket rate limiter with a concurrency limit, requests
+ * are started in the order they are scheduled.
+ *
+ * @example
+ * const limiter = new RateLimiter({ requestsPerSecond: 5, maxConcurrency: 2 })
+ * const result = await limiter.run(() => fetch(url))
+ */
+export class RateLimiter {
+  public readonly requestsPerSecond: number
+  public readonly burst: number
+  public readonly maxConcurrency: number
+
+  private tokens: number
+  private lastRefill: number = Date.now()
+  private pausedUntil: number = 0
+  private active: number = 0
+  private queue: Waiter[] = []
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor(opts: RateLimitOpts = {}) {
+    this.requestsPerSecond = opts.requestsPerSecond ?? Infinity
+    this.burst = opts.burst ?? (isFinite(this.requestsPerSecond) ? Math.max(1, this.requestsPerSecond) : Infinity)
+    this.maxConcurrency = opts.maxConcurrency ?? Infinity
+
+    if (!(this.requestsPerSecond > 0))
+      throw new Error("requestsPerSecond must be greater than 0")
+    if (!(this.burst >= 1))
+      throw new Error("burst must be at least 1")
+    if (!(this.maxConcurrency >= 1))
+      throw new Error("maxConcurrency must be at least 1")
+
+    this.tokens = this.burst
+  }
+
+  /**
+   * Number of requests waiting to be started.
+   */
+  public get pending(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Number of requests started and not yet settled.
+   */
+  public get running(): number {
+    return this.active
+  }
+
+  /**
+   * Runs the task once a token and a concurrency slot are available.
+   *
+   * Rejects with RequestAbortedError if the signal is aborted while
+   * the task is waiting to start.
+   */
+  public async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal)
+    try {
+      return await task()
+    } finally {
+      this.active -= 1
+      this.drain()
+    }
+  }
+
+  /**
+   * Holds back requests that have not started for the duration,
+   * e.g. when the server responds with HTTP 429.
+   */
+  public pause(duration: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + duration)
+    this.drain()
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted)
+        return reject(new RequestAbortedError())
+
+      const waiter: Waiter = { resolve, reject, signal }
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter((item) => item !== waiter)
+          reject(new RequestAbortedError())
+        }
+        signal.addEventListener("abort", waiter.onAbort)
+      }
+
+      this.queue.push(waiter)
+      this.drain()
+    })
+  }
+
+  private refill() {
+    const now = Date.now()
+    if (isFinite(this.requestsPerSecond))
+      this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.requestsPerSecond / 1000)
+    this.lastRefill = now
+  }
+
+  private drain() {
+    this.refill()
+
+    const now = Date.now()
+    while (this.queue.length && this.active < this.maxConcurrency && this.tokens >= 1 && this.pausedUntil <= now) {
+      const waiter = this.queue.shift()!
+      if (waiter.onAbort)
+        waiter.signal?.removeEventListener("abort", waiter.onAbort)
+
+      this.tokens -= 1
+      this.active += 1
+      waiter.resolve()
+    }
+
+    // wait for the next token, released slots drain the queue on settle
+    if (!this.queue.length || this.active >= this.maxConcurrency || this.timer)
+      return
+
+    const delay = Math.max(
+      this.pausedUntil - now,
+      this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * 1000 / this.requestsPerSecond),
+    )
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.drain()
+    }, delay)
+  }
+}
@@ -1,9 +1,19 @@
-import { BlockEventAttr, BlockEvents } from '../models/rest';
-import { SimpleMap } from '../utils';
-import APIManager, { RequestError, RequestResult, ResponseParser } from './APIConnector';
-import { GetBlockEventsOpts, TradehubEndpoints } from './spec';
+import { TMModels } from '../models';
+import { BlockEvents } from '../models/rest';
+import { appendHexPrefix, SimpleMap, stripHexPrefix } from '../utils';
+import { RequestCallOpts } from '../../utils/fetch';
+import APIManager, { APIManagerOpts, RequestError, RequestResult, ResponseParser } from './APIConnector';
+import {
+  GetBlockEventsOpts, TMABCIQueryOpts, TMBlockchainOpts, TMBlockOpts, TMTxOpts, TMTxSearchOpts,
+  TMUnconfirmedTxsOpts, TMValidatorsOpts, TradehubEndpoints,
+} from './spec';
+import TMWebSocket, { TMWebSocketOpts } from './TMWebSocket';
 
-export interface TmClientOpts {
+// tendermint URI params take strings in quotes and bytes as 0x prefixed hex
+const quote = (value?: string) => value === undefined ? undefined : JSON.stringify(value)
+const toHex = (value: string | Uint8Array) => appendHexPrefix(Buffer.from(value).toString("hex"))
+
+export interface TmClientOpts extends APIManagerOpts {
   debugMode?: boolean
 }
 
@@ -13,16 +23,31 @@ class TmClient {
 
   public static DEBUG_HEADERS: boolean = false
 
+  // JSON-RPC request ID
+  private requestIdCounter: number = 0
+
   constructor(
-    tmUrl: string,
+    tmUrl: string | string[],
     opts?: TmClientOpts,
   ) {
     const responseParser: ResponseParser = this.parseResponse.bind(this);
-    this.apiManager = new APIManager(tmUrl, TradehubEndpoints, responseParser)
+    this.apiManager = new APIManager(tmUrl, TradehubEndpoints, responseParser, opts)
 
     this.debugMode = opts?.debugMode ?? false
   }
 
+  /**
+   * Returns a view of this client that applies the signal and timeout
+   * to all of its requests.
+   */
+  withRequestOpts(opts: RequestCallOpts): TmClient {
+    const client: TmClient = Object.create(this)
+    Object.assign(client, {
+      apiManager: this.apiManager.withRequestOpts(opts),
+    })
+    return client
+  }
+
   async parseResponse(response: Response): Promise<RequestResult> {
     const { status, statusText, headers, url } = response
     const result: RequestResult = { status, statusText, headers, url }
@@ -51,41 +76,196 @@ class TmClient {
       }
     }
 
-    if (response.status >= 400 && response.status < 600) {
-      throw new RequestError(result, result.data?.error || 'unknown error')
+    // JSON-RPC errors are not always returned with an error status
+    const error = result.data?.error
+    if (error || (response.status >= 400 && response.status < 600)) {
+      const message = typeof error === "object"
+        ? [error.message, error.data].filter(Boolean).join(": ")
+        : error
+      throw new RequestError(result, message || 'unknown error')
     }
 
     return result;
   }
 
-  // Generic
+  /**
+   * Returns the result of a tendermint JSON-RPC request.
+   */
+  private async query<T>(path: keyof typeof TradehubEndpoints, queryParams?: SimpleMap<any>): Promise<T> {
+    const request = this.apiManager.path(path, {}, queryParams)
+    const response = await request.get()
+    return response.data.result as T
+  }
+
+  /**
+   * Returns the result of a tendermint JSON-RPC request sent by POST.
+   */
+  private async call<T>(method: string, params: SimpleMap<any>, opts: RequestCallOpts = {}): Promise<T> {
+    const request = this.apiManager.path('tendermint/jsonrpc')
+    const response = await request.post({
+      ...opts,
+      body: { jsonrpc: "2.0", id: `${++this.requestIdCounter}`, method, params },
+    })
+    return response.data.result as T
+  }
+
+  private decodeTxResult(result: any): TMModels.TxResult {
+    return {
+      ...result,
+      events: TMModels.decodeEvents(result?.events),
+    }
+  }
+
+  private decodeTx(tx: any): TMModels.Tx {
+    return {
+      ...tx,
+      tx_result: this.decodeTxResult(tx.tx_result),
+    }
+  }
+
+  // Info
+
+  async getStatus(): Promise<TMModels.Status> {
+    return this.query<TMModels.Status>('tendermint/status')
+  }
+
+  async getNetInfo(): Promise<TMModels.NetInfo> {
+    return this.query<TMModels.NetInfo>('tendermint/net_info')
+  }
+
+  async getValidators(opts: TMValidatorsOpts = {}): Promise<TMModels.Validators> {
+    return this.query<TMModels.Validators>('tendermint/validators', opts)
+  }
+
+  async abciQuery(opts: TMABCIQueryOpts): Promise<TMModels.ABCIQuery> {
+    const queryParams = {
+      path: quote(opts.path),
+      data: opts.data === undefined ? undefined : toHex(typeof opts.data === "string" ? Buffer.from(stripHexPrefix(opts.data), "hex") : opts.data),
+      height: opts.height,
+      prove: opts.prove,
+    }
+    return this.query<TMModels.ABCIQuery>('tendermint/abci_query', queryParams)
+  }
+
+  // Blocks
+
+  async getBlock(opts: TMBlockOpts = {}): Promise<TMModels.BlockResponse> {
+    return this.query<TMModels.BlockResponse>('tendermint/block', opts)
+  }
+
+  async getBlockchain(opts: TMBlockchainOpts = {}): Promise<TMModels.Blockchain> {
+    return this.query<TMModels.Blockchain>('tendermint/blockchain', opts)
+  }
 
   async getBlockEvents(opts: GetBlockEventsOpts): Promise<BlockEvents> {
-    const request = this.apiManager.path('tendermint/block_results', {}, opts)
-    const response = await request.get()
-    const data = response.data
-
-    const parseEvents = (evts: ReadonlyArray<any>) => {
-      return evts.map((e) => ({
-        type: e.type as string,
-        attributes: e.attributes.reduce((result, attr: BlockEventAttr) => {
-          if (typeof window?.atob === "function") {
-            result[window.atob(attr.key)] = attr.value === null || typeof attr.value === 'undefined' ? null : window.atob(attr.value)        
-          } else {
-            const key = Buffer.from(attr.key, "base64").toString("utf8")
-            result[key] = attr.value === null || typeof attr.value === 'undefined' ? null : Buffer.from(attr.value, "base64").toString("utf8")
-          }
-          return result;
-        }, {} as SimpleMap),
-      }))
+    const result = await this.query<any>('tendermint/block_results', opts)
+    return {
+      begin_block_events: TMModels.decodeEvents(result?.begin_block_events),
+      end_block_events: TMModels.decodeEvents(result?.end_block_events),
+    }
+  }
+
+  // Txs
+
+  async getTx(opts: TMTxOpts): Promise<TMModels.Tx> {
+    const queryParams = {
+      hash: appendHexPrefix(stripHexPrefix(opts.hash)),
+      prove: opts.prove,
     }
+    const tx = await this.query<any>('tendermint/tx', queryParams)
+    return this.decodeTx(tx)
+  }
 
-    const events = {
-      begin_block_events: parseEvents(data.result?.begin_block_events ?? []),
-      end_block_events: parseEvents(data.result?.end_block_events ?? []),
+  async searchTxs(opts: TMTxSearchOpts): Promise<TMModels.TxSearch> {
+    const queryParams = {
+      ...opts,
+      query: quote(opts.query),
+      order_by: quote(opts.order_by),
+    }
+    const result = await this.query<any>('tendermint/tx_search', queryParams)
+    return {
+      ...result,
+      txs: (result.txs ?? []).map((tx: any) => this.decodeTx(tx)),
     }
+  }
+
+  async getUnconfirmedTxs(opts: TMUnconfirmedTxsOpts = {}): Promise<TMModels.UnconfirmedTxs> {
+    return this.query<TMModels.UnconfirmedTxs>('tendermint/unconfirmed_txs', opts)
+  }
+
+  /**
+   * Returns the number of unconfirmed txs, without the txs.
+   */
+  async getNumUnconfirmedTxs(): Promise<TMModels.UnconfirmedTxs> {
+    return this.query<TMModels.UnconfirmedTxs>('tendermint/num_unconfirmed_txs')
+  }
+
+  // Broadcast
+  // sent as POST requests, which are not retried or failed over to
+  // another URL, as a resent tx may be included twice
+
+  /**
+   * Broadcasts an encoded tx without waiting for CheckTx.
+   *
+   * @param tx encoded tx bytes, or base64 encoded tx
+   */
+  async broadcastTxAsync(tx: string | Uint8Array): Promise<TMModels.BroadcastTxResult> {
+    return this.call<TMModels.BroadcastTxResult>('broadcast_tx_async', { tx: this.encodeTx(tx) })
+  }
+
+  /**
+   * Broadcasts an encoded tx and returns the CheckTx result.
+   *
+   * @param tx encoded tx bytes, or base64 encoded tx
+   */
+  async broadcastTxSync(tx: string | Uint8Array): Promise<TMModels.BroadcastTxResult> {
+    return this.call<TMModels.BroadcastTxResult>('broadcast_tx_sync', { tx: this.encodeTx(tx) })
+  }
+
+  /**
+   * Broadcasts an encoded tx and waits for it to be committed in a
+   * block, prefer broadcastTxSync with TMWebSocket.subscribeTx as this
+   * request times out on the node if the block is slow.
+   *
+   * The client timeout does not apply to this request, it waits until
+   * the node's timeout_broadcast_tx_commit, unless aborted with the
+   * signal of withRequestOpts.
+   *
+   * @param tx encoded tx bytes, or base64 encoded tx
+   */
+  async broadcastTxCommit(tx: string | Uint8Array): Promise<TMModels.BroadcastTxCommitResult> {
+    const result = await this.call<any>('broadcast_tx_commit', { tx: this.encodeTx(tx) }, { timeout: 0 })
+    return {
+      ...result,
+      check_tx: this.decodeTxResult(result.check_tx),
+      deliver_tx: this.decodeTxResult(result.deliver_tx),
+    }
+  }
+
+  // JSON-RPC takes bytes params as base64
+  private encodeTx(tx: string | Uint8Array): string {
+    return typeof tx === "string" ? tx : Buffer.from(tx).toString("base64")
+  }
+
+  // Websocket
+
+  /**
+   * Tendermint websocket endpoint of the first RPC URL.
+   */
+  getWebSocketURL(): string {
+    return `${this.apiManager.apiPrefix.replace(/^http/, "ws").replace(/\/$/, "")}/websocket`
+  }
 
-    return events as BlockEvents
+  /**
+   * Creates a websocket client for tendermint event subscriptions,
+   * call TMWebSocket.connect before subscribing.
+   */
+  createWebSocket(opts: Partial<TMWebSocketOpts> = {}): TMWebSocket {
+    return new TMWebSocket({
+      endpoint: this.getWebSocketURL(),
+      debugMode: this.debugMode,
+      ...opts,
+    })
   }
 }
 
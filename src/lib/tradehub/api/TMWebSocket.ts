@@ -0,0 +1,314 @@
+import NodeWebSocket from 'ws';
+import { TMModels } from '../models';
+import { SimpleMap } from '../utils';
+
+// see TMWebSocketOpts.timeout
+const DEFAULT_TIMEOUT = 10000
+
+const EVENT_NEW_BLOCK = "tendermint/event/NewBlock"
+const EVENT_TX = "tendermint/event/Tx"
+
+export interface TMWebSocketOpts {
+  // tendermint websocket endpoint, e.g. ws://localhost:26657/websocket
+  endpoint: string
+  debugMode?: boolean
+
+  // timeout in milliseconds to connect and to receive responses
+  timeout?: number
+}
+
+export type TMEventHandler<T = unknown> = (event: TMModels.SubscriptionEvent<T>) => void
+
+interface PendingRequest {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Tendermint websocket client for JSON-RPC requests and event
+ * subscriptions, independent of the TradeHub websocket API.
+ *
+ * Subscriptions are sent again when connect is called after the
+ * connection is closed.
+ *
+ * @example
+ * const ws = sdk.tm.createWebSocket()
+ * await ws.connect()
+ *
+ * await ws.subscribeNewBlock((event) => {
+ *   console.log("new block", event.data.value.block.header.height)
+ * })
+ *
+ * // wait for a tx to be committed
+ * const unsubscribe = await ws.subscribeTx((event) => {
+ *   console.log("tx committed", event.data.value.TxResult.height)
+ *   unsubscribe()
+ * }, `tx.hash='${txHash}'`)
+ */
+class TMWebSocket {
+  public readonly endpoint: string
+  public readonly debugMode: boolean
+  public readonly timeout: number
+
+  private websocket: WebSocket | null = null
+  private requestIdCounter: number = 0
+  private pendingRequests: SimpleMap<PendingRequest> = {}
+  private handlers: SimpleMap<TMEventHandler<any>> = {}
+
+  constructor(opts: TMWebSocketOpts) {
+    this.endpoint = opts.endpoint
+    this.debugMode = opts.debugMode ?? false
+    this.timeout = opts.timeout ?? DEFAULT_TIMEOUT
+  }
+
+  public get connected(): boolean {
+    return !!this.websocket
+  }
+
+  /**
+   * Opens the connection and restores subscriptions of a previous
+   * connection.
+   */
+  public async connect(): Promise<void> {
+    if (this.websocket)
+      return
+
+    const websocket = await this.openWebSocket()
+    this.websocket = websocket
+
+    for (const query of Object.keys(this.handlers))
+      await this.request("subscribe", { query })
+  }
+
+  /**
+   * Closes the connection and rejects pending requests, subscription
+   * handlers are kept until unsubscribed.
+   */
+  public disconnect() {
+    const websocket = this.websocket
+    this.websocket = null
+
+    try {
+      websocket?.close()
+    } catch (e) {
+      // ignore error on disconnect
+    }
+    this.rejectPending(new Error("tendermint websocket disconnected"))
+  }
+
+  /**
+   * Sends a JSON-RPC request, e.g. request("status", {}), and returns
+   * its result.
+   */
+  public request<T = unknown>(method: string, params: SimpleMap<any> = {}): Promise<T> {
+    const websocket = this.websocket
+    if (!websocket)
+      return Promise.reject(new Error("tendermint websocket not connected"))
+
+    const id = `${++this.requestIdCounter}`
+    const message = JSON.stringify({ jsonrpc: "2.0", id, method, params })
+    this.debugLog("TMWebSocket.request", message)
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        delete this.pendingRequests[id]
+        reject(new Error(`tendermint websocket request timed out: ${method}`))
+      }, this.timeout)
+      this.pendingRequests[id] = { resolve, reject, timer }
+
+      websocket.send(message)
+    })
+  }
+
+  /**
+   * Subscribes to events matching the query, e.g. "tm.event='NewBlock'",
+   * and returns a function that unsubscribes the handler.
+   *
+   * A query has a single handler, subscribing again replaces it.
+   */
+  public async subscribe<T = unknown>(query: string, handler: TMEventHandler<T>): Promise<() => Promise<void>> {
+    const shouldSubscribe = !this.handlers[query]
+    this.handlers[query] = handler
+
+    try {
+      if (shouldSubscribe)
+        await this.request("subscribe", { query })
+    } catch (error) {
+      delete this.handlers[query]
+      throw error
+    }
+
+    return () => this.unsubscribe(query)
+  }
+
+  public async unsubscribe(query: string): Promise<void> {
+    if (!this.handlers[query])
+      return
+
+    delete this.handlers[query]
+    if (this.websocket)
+      await this.request("unsubscribe", { query })
+  }
+
+  public async unsubscribeAll(): Promise<void> {
+    this.handlers = {}
+    if (this.websocket)
+      await this.request("unsubscribe_all")
+  }
+
+  public subscribeNewBlock(handler: TMEventHandler<TMModels.NewBlockEvent>): Promise<() => Promise<void>> {
+    return this.subscribe("tm.event='NewBlock'", handler)
+  }
+
+  /**
+   * @param filter additional conditions on tx events, e.g.
+   * "tx.hash='ABC…'" or "message.sender='swth1…'"
+   */
+  public subscribeTx(handler: TMEventHandler<TMModels.TxEvent>, filter?: string): Promise<() => Promise<void>> {
+    const query = filter ? `tm.event='Tx' AND ${filter}` : "tm.event='Tx'"
+    return this.subscribe(query, handler)
+  }
+
+  private openWebSocket(): Promise<WebSocket> {
+    return new Promise<WebSocket>((resolve, reject) => {
+      let opened = false
+      const timer = setTimeout(() => {
+        reject(new Error("tendermint websocket connect timed out"))
+        websocket.close()
+      }, this.timeout)
+
+      const onOpen = () => {
+        opened = true
+        clearTimeout(timer)
+        resolve(websocket)
+      }
+      const onClose = () => {
+        clearTimeout(timer)
+        if (!opened)
+          return reject(new Error("tendermint websocket closed before connecting"))
+
+        if (this.websocket === websocket) {
+          this.websocket = null
+          this.rejectPending(new Error("tendermint websocket closed"))
+        }
+      }
+      const onMessage = (data: string) => this.onMessage(data)
+
+      let websocket: WebSocket
+      if (typeof WebSocket !== 'undefined') {
+        // this works on browsers js vm
+        websocket = new WebSocket(this.endpoint)
+        websocket.onopen = onOpen
+        websocket.onclose = onClose
+        websocket.onerror = (ev) => this.debugLog("TMWebSocket.onError", ev)
+        websocket.onmessage = (ev) => onMessage(ev.data)
+      } else {
+        // and this works on nodejs vm
+        const nodeWebSocket = new NodeWebSocket(this.endpoint)
+        nodeWebSocket.on('open', onOpen)
+        nodeWebSocket.on('close', onClose)
+        nodeWebSocket.on('error', (error: Error) => this.debugLog("TMWebSocket.onError", error))
+        nodeWebSocket.on('message', onMessage)
+
+        websocket = nodeWebSocket as unknown as WebSocket
+      }
+    })
+  }
+
+  private onMessage(data: string) {
+    this.debugLog("TMWebSocket.onMessage", data)
+
+    let message: any
+    try {
+      message = JSON.parse(data)
+    } catch (error) {
+      console.error(error)
+      return
+    }
+
+    // subscription events carry the query of the subscription
+    const query = message.result?.query
+    if (query && message.result.data) {
+      const handler = this.handlers[query]
+      if (!handler) {
+        this.debugLog(`handler not found for query: ${query}`)
+        return
+      }
+
+      try {
+        handler(this.decodeEvent(message.result))
+      } catch (error) {
+        console.error(error)
+      }
+      return
+    }
+
+    const pending = this.pendingRequests[message.id]
+    if (!pending)
+      return
+
+    clearTimeout(pending.timer)
+    delete this.pendingRequests[message.id]
+
+    if (message.error) {
+      const error = message.error
+      pending.reject(new Error([error.message, error.data].filter(Boolean).join(": ")))
+    } else {
+      pending.resolve(message.result)
+    }
+  }
+
+  private decodeEvent(event: any): TMModels.SubscriptionEvent {
+    const value = event.data.value
+    switch (event.data.type) {
+      case EVENT_NEW_BLOCK:
+        return {
+          ...event,
+          data: {
+            ...event.data,
+            value: {
+              ...value,
+              result_begin_block: { ...value.result_begin_block, events: TMModels.decodeEvents(value.result_begin_block?.events) },
+              result_end_block: { ...value.result_end_block, events: TMModels.decodeEvents(value.result_end_block?.events) },
+            },
+          },
+        }
+      case EVENT_TX: {
+        const txResult = value.TxResult
+        return {
+          ...event,
+          data: {
+            ...event.data,
+            value: {
+              TxResult: {
+                ...txResult,
+                result: { ...txResult.result, events: TMModels.decodeEvents(txResult.result?.events) },
+              },
+            },
+          },
+        }
+      }
+      default:
+        return event
+    }
+  }
+
+  private rejectPending(error: Error) {
+    const pendingRequests = this.pendingRequests
+    this.pendingRequests = {}
+
+    for (const pending of Object.values(pendingRequests)) {
+      clearTimeout(pending.timer)
+      pending.reject(error)
+    }
+  }
+
+  private debugLog(...args: any[]) {
+    if (!this.debugMode) return
+
+    console.log(...args)
+  }
+}
+
+export default TMWebSocket
@@ -1,2 +1,9 @@
+export { APICache, APICachedResult, APICacheEntry, APICacheOpts, APICacheStorage, DEFAULT_CACHE_TTLS, MemoryCacheStorage } from "./APICache";
 export { default as APIClient } from "./APIClient";
+export { APIManagerOpts, APIMiddleware, APIRequest, APIRetryOpts, errorInterceptor, getRetryAfter, RequestError, requestInterceptor, responseInterceptor } from "./APIConnector";
+export { default as ParsedAPIClient } from "./ParsedAPIClient";
+export { IterateOpts, iteratePages, PageDirection } from "./pagination";
+export { APIRateLimitOpts, RateLimiter, RateLimitOpts } from "./RateLimiter";
 export { default as TMClient } from "./TMClient";
+export { default as TMWebSocket, TMEventHandler, TMWebSocketOpts } from "./TMWebSocket";
+export { RequestAbortedError, RequestCallOpts, RequestTimeoutError } from "../../utils/fetch";
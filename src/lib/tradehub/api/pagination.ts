@@ -0,0 +1,79 @@
+import BigNumber from "bignumber.js";
+import { ResultsMinMax } from "./spec";
+
+export type PageDirection = "backward" | "forward"
+
+export interface IterateOpts {
+  /**
+   * `backward` (default) walks towards older records with `before_id`,
+   * `forward` walks towards newer records with `after_id`.
+   *
+   * Endpoints return newest records first, so walking forward
+   * queries pages with `order_by` set to ascending order.
+   */
+  direction?: PageDirection
+
+  /**
+   * Stops iterating after this number of records.
+   */
+  maxItems?: number
+}
+
+export interface PageCursorOpts {
+  before_id?: string | number
+  after_id?: string | number
+  order_by?: string
+}
+
+// sort order of pages when walking forward, the next cursor is the
+// highest ID of a page so records in between pages are not skipped
+const FORWARD_ORDER = "asc"
+
+/**
+ * Walks through pages of a `ResultsMinMax` endpoint, yielding records
+ * one at a time until the endpoint returns an empty page, the cursor
+ * stops advancing or maxItems is reached.
+ *
+ * @param fetchPage queries a single page with the provided cursor
+ * @param opts query params of the first page, its `before_id` or
+ * `after_id` is used as the starting cursor
+ * @param getId returns the cursor ID of a record
+ */
+export async function* iteratePages<T, O extends PageCursorOpts>(
+  fetchPage: (opts: O) => Promise<ResultsMinMax<T>>,
+  opts: O,
+  getId: (item: T) => string | number,
+  iterateOpts: IterateOpts = {},
+): AsyncGenerator<T, void, undefined> {
+  const direction = iterateOpts.direction ?? "backward"
+  const maxItems = iterateOpts.maxItems ?? Infinity
+  const cursorKey = direction === "backward" ? "before_id" : "after_id"
+
+  const pageOpts: O = direction === "forward" ? { ...opts, order_by: FORWARD_ORDER } : opts
+
+  let cursor = opts[cursorKey]
+  let count = 0
+  while (count < maxItems) {
+    const page = await fetchPage({ ...pageOpts, [cursorKey]: cursor })
+    const records = page?.data ?? []
+    if (!records.length)
+      return
+
+    for (const record of records) {
+      yield record
+      if (++count >= maxItems)
+        return
+    }
+
+    const ids = records.map((record) => new BigNumber(getId(record)))
+    const nextCursor = direction === "backward" ? BigNumber.min(...ids) : BigNumber.max(...ids)
+
+    // guard against endpoints ignoring the cursor
+    const advanced = cursor === undefined ||
+      (direction === "backward" ? nextCursor.lt(cursor) : nextCursor.gt(cursor))
+    if (!nextCursor.isFinite() || !advanced)
+      return
+
+    cursor = nextCursor.toString(10)
+  }
+}
@@ -94,6 +94,18 @@ export const TradehubEndpoints = {
   'distribution/parameters': '/distribution/parameters',
 
   // tendermint
+  'tendermint/status': '/status',
+  'tendermint/block': '/block',
   'tendermint/block_results': '/block_results',
+  'tendermint/blockchain': '/blockchain',
+  'tendermint/tx': '/tx',
+  'tendermint/tx_search': '/tx_search',
+  'tendermint/validators': '/validators',
+  'tendermint/abci_query': '/abci_query',
+  'tendermint/net_info': '/net_info',
+  'tendermint/unconfirmed_txs': '/unconfirmed_txs',
+  'tendermint/num_unconfirmed_txs': '/num_unconfirmed_txs',
+  // JSON-RPC over POST, used for requests that must not be retried
+  'tendermint/jsonrpc': '/',
 
 } as const
@@ -7,4 +7,5 @@ export interface GetTradesOpts {
     order_id?: string
     after_block?: number
     before_block?: number
+    order_by?: string
 }
@@ -0,0 +1,6 @@
+/**
+ * @param address Only returns vaults of this address
+ */
+export interface GetVaultsOpts {
+  address: string
+}
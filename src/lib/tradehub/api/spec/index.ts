@@ -46,10 +46,12 @@ export * from "./get_txs"
 export * from "./get_tx_log"
 export * from "./get_unbonded_staking_validators"
 export * from "./get_unbonding_staking_validators"
+export * from "./get_vaults"
 export * from "./get_wallet_balance"
 export * from "./gov"
 export * from "./list_validator_delegations"
 export * from "./slashing"
 export * from "./supply"
+export * from "./tendermint"
 export * from "./util"
 export * from "./_rest_endpoints"
@@ -0,0 +1,59 @@
+/**
+ * @param height defaults to the latest block
+ */
+export interface TMBlockOpts {
+  height?: number
+}
+
+/**
+ * Tendermint returns at most 20 block metas, from maxHeight
+ * in descending order.
+ */
+export interface TMBlockchainOpts {
+  minHeight?: number
+  maxHeight?: number
+}
+
+/**
+ * @param hash hex encoded tx hash, with or without 0x prefix
+ */
+export interface TMTxOpts {
+  hash: string
+  prove?: boolean
+}
+
+/**
+ * @param query tendermint event query, e.g. "tx.height=5" or
+ * "message.sender='swth1…'"
+ */
+export interface TMTxSearchOpts {
+  query: string
+  prove?: boolean
+  page?: number
+  per_page?: number
+  order_by?: "asc" | "desc"
+}
+
+/**
+ * @param height defaults to the latest block
+ */
+export interface TMValidatorsOpts {
+  height?: number
+  page?: number
+  per_page?: number
+}
+
+/**
+ * @param path ABCI query path, e.g. "/store/acc/key"
+ * @param data query data, hex encoded if a string is provided
+ */
+export interface TMABCIQueryOpts {
+  path: string
+  data?: string | Uint8Array
+  height?: number
+  prove?: boolean
+}
+
+export interface TMUnconfirmedTxsOpts {
+  limit?: number
+}
@@ -1,6 +1,6 @@
 import { ABIs } from "@lib/eth";
 import { TokenInitInfo } from "@lib/types";
-import fetch from "@lib/utils/fetch";
+import fetch, { DEFAULT_REQUEST_TIMEOUT, RequestCallOpts, withTimeout } from "@lib/utils/fetch";
 import { logger } from "@lib/utils/logger";
 import BigNumber from "bignumber.js";
 import { ethers } from "ethers";
@@ -58,8 +58,12 @@ export class ETHClient {
     return new ETHClient(configProvider, blockchain)
   }
 
-  public async getExternalBalances(api: APIClient, address: string, whitelistDenoms?: string[]) {
-    const tokenList = await api.getTokens()
+  /**
+   * @param requestOpts signal and timeout applied to the token list
+   * and balance queries
+   */
+  public async getExternalBalances(api: APIClient, address: string, whitelistDenoms?: string[], requestOpts: RequestCallOpts = {}) {
+    const tokenList = await api.withRequestOpts(requestOpts).getTokens()
     const lockProxyAddress = this.getLockProxyAddress().toLowerCase()
     const tokens = tokenList.filter(token =>
       token.blockchain == this.blockchain &&
@@ -72,7 +76,10 @@ export class ETHClient {
     const contractAddress = this.getBalanceReaderAddress()
     const contract = new ethers.Contract(contractAddress, ABIs.balanceReader, provider)
 
-    const balances = await contract.getBalances(address, assetIds)
+    const balances = await withTimeout(contract.getBalances(address, assetIds), {
+      signal: requestOpts.signal,
+      timeout: requestOpts.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+    })
     for (let i = 0; i < tokens.length; i++) {
       (tokens[i] as any).external_balance = balances[i].toString()
     }
@@ -173,10 +180,10 @@ export class ETHClient {
     return walletAddress
   }
 
-  public async sendDeposit(token, swthAddress: string, ethAddress: string, getSignatureCallback?: (msg: string) => Promise<{ address: string, signature: string }>) {
+  public async sendDeposit(token, swthAddress: string, ethAddress: string, getSignatureCallback?: (msg: string) => Promise<{ address: string, signature: string }>, requestOpts: RequestCallOpts = {}) {
     logger("sendDeposit", token, swthAddress, ethAddress)
     const depositAddress = await this.getDepositContractAddress(swthAddress, ethAddress)
-    const feeAmount = await this.getDepositFeeAmount(token, depositAddress)
+    const feeAmount = await this.getDepositFeeAmount(token, depositAddress, requestOpts)
     const amount = ethers.BigNumber.from(token.external_balance)
     if (amount.lt(feeAmount.mul(FEE_MULTIPLIER))) {
       return "insufficient balance"
@@ -235,14 +242,19 @@ export class ETHClient {
 
     const result = await fetch(
       this.getPayerUrl() + "/deposit",
-      { method: "POST", body: JSON.stringify(body) }
+      {
+        method: "POST",
+        body: JSON.stringify(body),
+        signal: requestOpts.signal,
+        timeout: requestOpts.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+      }
     )
     logger("fetch result", result)
     return result
   }
 
-  public async getDepositFeeAmount(token: RestModels.Token, depositAddress: string) {
-    const feeInfo = await this.getFeeInfo(token.denom)
+  public async getDepositFeeAmount(token: RestModels.Token, depositAddress: string, requestOpts: RequestCallOpts = {}) {
+    const feeInfo = await this.getFeeInfo(token.denom, requestOpts)
     if (!feeInfo.details?.deposit?.fee) {
       throw new Error("unsupported token")
     }
@@ -259,10 +271,13 @@ export class ETHClient {
     return feeAmount
   }
 
-  public async getFeeInfo(denom: string) {
+  public async getFeeInfo(denom: string, requestOpts: RequestCallOpts = {}) {
     const networkConfig = this.getNetworkConfig();
     const url = `${networkConfig.FeeURL}/fees?denom=${denom}`
-    const result = await fetch(url).then(res => res.json()) as RestModels.FeeResult
+    const result = await fetch(url, {
+      signal: requestOpts.signal,
+      timeout: requestOpts.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+    }).then(res => res.json()) as RestModels.FeeResult
     return result
   }
 
@@ -6,6 +6,7 @@ import {
 import Neon, { api, rpc } from '@cityofzion/neon-js';
 import { TokenInitInfo } from "@lib/types";
 import { logger } from "@lib/utils";
+import { DEFAULT_REQUEST_TIMEOUT, RequestCallOpts, withTimeout } from "@lib/utils/fetch";
 import BigNumber from "bignumber.js";
 import { chunk } from 'lodash';
 import { APIClient } from "../api";
@@ -50,8 +51,12 @@ export class NEOClient {
     return new BigNumber(res ? neonUtils.reverseHex(res) : '00', 16).shiftedBy(-exp).toString()
   }
 
-  public async getExternalBalances(api: APIClient, address: string, url: string, whitelistDenoms?: string[]) {
-    const tokenList = await api.getTokens()
+  /**
+   * @param requestOpts signal and timeout applied to the token list
+   * query and to the balance queries as a whole
+   */
+  public async getExternalBalances(api: APIClient, address: string, url: string, whitelistDenoms?: string[], requestOpts: RequestCallOpts = {}) {
+    const tokenList = await api.withRequestOpts(requestOpts).getTokens()
     const account = new neonWallet.Account(address)
     const tokens = tokenList.filter(token =>
       token.blockchain == this.blockchain &&
@@ -90,7 +95,10 @@ export class NEOClient {
         return acc
       })
 
-    const result = await Promise.all(promises).then((results: any[]) => {
+    const result = await withTimeout(Promise.all(promises), {
+      signal: requestOpts.signal,
+      timeout: requestOpts.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+    }, url).then((results: any[]) => {
       return results.reduce((acc: {}, res: {}) => ({ ...acc, ...res }), {})
     })
 
@@ -100,14 +108,17 @@ export class NEOClient {
     return tokens
   }
 
-  public async retrieveNEP5Info(scriptHash: string): Promise<TokenInitInfo> {
+  public async retrieveNEP5Info(scriptHash: string, requestOpts: RequestCallOpts = {}): Promise<TokenInitInfo> {
     const url = this.getProviderUrl()
     const sb = Neon.create.scriptBuilder()
     sb.emitAppCall(scriptHash, "symbol", [])
     sb.emitAppCall(scriptHash, "name", [])
     sb.emitAppCall(scriptHash, "decimals", [])
 
-    const response = await rpc.Query.invokeScript(sb.str).execute(url)
+    const response = await withTimeout(rpc.Query.invokeScript(sb.str).execute(url), {
+      signal: requestOpts.signal,
+      timeout: requestOpts.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+    }, url)
     logger("retrieveNEP5Info", response)
 
     if (response?.result?.state !== "HALT")
@@ -1,9 +1,11 @@
-import fetch from "@lib/utils/fetch";
+import fetch, { DEFAULT_REQUEST_TIMEOUT, RequestCallOpts } from "@lib/utils/fetch";
 import BigNumber from "bignumber.js";
 import { APIClient } from "../api";
 import { Token } from "../models/rest";
 import { Blockchain, bnOrZero, CoinGeckoTokenNames, CommonAssetName, SimpleMap } from "../utils";
 
+export const DEFAULT_COINGECKO_URL = "https://api.coingecko.com/api/v3";
+
 const SYMBOL_OVERRIDE: {
   [symbol: string]: string
 } = {
@@ -22,17 +24,21 @@ class TokenClient {
 
   private constructor(
     public readonly api: APIClient,
+    public readonly coinGeckoURL: string = DEFAULT_COINGECKO_URL,
   ) {
   }
 
-  public static instance(api: APIClient) {
-    return new TokenClient(api);
+  public static instance(api: APIClient, coinGeckoURL?: string) {
+    return new TokenClient(api, coinGeckoURL);
   }
 
-  public async initialize(): Promise<void> {
-    await this.reloadTokens();
-    await this.reloadWrapperMap();
-    await this.reloadUSDValues();
+  /**
+   * @param requestOpts signal and timeout applied to each request
+   */
+  public async initialize(requestOpts?: RequestCallOpts): Promise<void> {
+    await this.reloadTokens(requestOpts);
+    await this.reloadWrapperMap(requestOpts);
+    await this.reloadUSDValues(undefined, requestOpts);
   }
 
   public registerGeckoIdMap(map: SimpleMap<string>) {
@@ -147,8 +153,8 @@ class TokenClient {
     return null;
   }
 
-  public async reloadTokens(): Promise<SimpleMap<Token>> {
-    const tokenList = await this.api.getTokens();
+  public async reloadTokens(requestOpts?: RequestCallOpts): Promise<SimpleMap<Token>> {
+    const tokenList = await this.getAPI(requestOpts).getTokens();
 
     for (const token of tokenList) {
       if (TokenClient.isPoolToken(token.denom)) {
@@ -164,13 +170,13 @@ class TokenClient {
     return this.tokens;
   }
 
-  public async reloadWrapperMap(): Promise<SimpleMap<string>> {
-    const mappingResponse = await this.api.getCoinMapping();
+  public async reloadWrapperMap(requestOpts?: RequestCallOpts): Promise<SimpleMap<string>> {
+    const mappingResponse = await this.getAPI(requestOpts).getCoinMapping();
     Object.assign(this.wrapperMap, mappingResponse?.result ?? {});
     return this.wrapperMap;
   }
 
-  public async reloadUSDValues(denoms: string[] = Object.keys(this.tokens)): Promise<SimpleMap<BigNumber>> {
+  public async reloadUSDValues(denoms: string[] = Object.keys(this.tokens), requestOpts: RequestCallOpts = {}): Promise<SimpleMap<BigNumber>> {
     // flatten duplicate denoms
     const commonDenoms = denoms.reduce((accum, denom) => {
       if (TokenClient.isPoolToken(denom))
@@ -184,7 +190,10 @@ class TokenClient {
     }, {} as SimpleMap);
     const coinIds = Object.keys(commonDenoms).map((denom) => CoinGeckoTokenNames[denom] ?? denom);
 
-    const request = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=${coinIds.join(',')}&vs_currencies=usd`);
+    const request = await fetch(`${this.coinGeckoURL}/simple/price?ids=${coinIds.join(',')}&vs_currencies=usd`, {
+      signal: requestOpts.signal,
+      timeout: requestOpts.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+    });
     const response = await request.json();
 
     for (const denom in commonDenoms) {
@@ -197,6 +206,10 @@ class TokenClient {
 
     return this.usdValues;
   }
+
+  private getAPI(requestOpts?: RequestCallOpts): APIClient {
+    return requestOpts ? this.api.withRequestOpts(requestOpts) : this.api;
+  }
 }
 
 export default TokenClient;
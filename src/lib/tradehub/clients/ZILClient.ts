@@ -7,6 +7,7 @@ import { APIClient } from "../api";
 import { ethers } from "ethers";
 import { appendHexPrefix, Blockchain, NetworkConfig, NetworkConfigProvider, ZilNetworkConfig, stripHexPrefix, SWTHAddress } from "../utils";
 import { RestModels } from "../models";
+import { DEFAULT_REQUEST_TIMEOUT, RequestCallOpts, withTimeout } from "@lib/utils/fetch";
 
 const uint128Max = "340282366920938463463374607431768211356"
 const zeroAddress = "0000000000000000000000000000000000000000"
@@ -68,8 +69,12 @@ export class ZILClient {
         return new ZILClient(configProvider,blockchain)
     }
 
-    public async getExternalBalances(api: APIClient, address: string, whitelistDenoms?: string[]) {
-        const tokenList = await api.getTokens()
+    /**
+     * @param requestOpts signal and timeout applied to the token list
+     * and balance queries
+     */
+    public async getExternalBalances(api: APIClient, address: string, whitelistDenoms?: string[], requestOpts: RequestCallOpts = {}) {
+        const tokenList = await api.withRequestOpts(requestOpts).getTokens()
         const lockProxyAddress = this.getLockProxyAddress().toLowerCase()
         const tokens = tokenList.filter(token =>
           token.blockchain == this.blockchain &&
@@ -80,7 +85,10 @@ export class ZILClient {
 
         const requests = tokens.map(token => [token.asset_id, "balances", [appendHexPrefix(address)]])
         const zilliqa = new Zilliqa(this.getProviderUrl())
-        const results = await zilliqa.blockchain.getSmartContractSubStateBatch(requests) as any
+        const results = await withTimeout(zilliqa.blockchain.getSmartContractSubStateBatch(requests), {
+          signal: requestOpts.signal,
+          timeout: requestOpts.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+        }) as any
         const batch_result = results.batch_result
         if (batch_result.error !== undefined) {
             throw new Error(batch_result.error.message)
@@ -0,0 +1,732 @@
+import BigNumber from "bignumber.js";
+import secp256k1 from "secp256k1";
+import { sha256 } from "sha.js";
+import { RestModels, RPCParams } from "../models";
+import { BroadcastTx, FeeEstimator, MultisigThresholdPubKey, Network, PubKeyTypes, SimpleMap, StdSignDoc, SWTHAddress, TradeHubTx, TxEvent, TxFee, TxFeeJSON, TxLog, TxMsg, TxResponse, TxTypes } from "../utils";
+import { generateChannelId } from "../websocket/channel";
+import { WSChannel } from "../websocket/types";
+import { MockFixtures } from "./fixtures";
+
+/**
+ * Error codes of the cosmos-sdk root codespace.
+ */
+export const MockTxCodes = {
+  InvalidRequest: 3,
+  Unauthorized: 4,
+  InsufficientFunds: 5,
+  UnknownAddress: 9,
+  InsufficientFee: 13,
+} as const
+
+export class MockTxError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = "MockTxError"
+  }
+}
+
+export interface MockStateUpdate {
+  // websocket channel ID, e.g. balances.tswth1…
+  channel: string
+  result: unknown
+}
+
+export type MockStateListener = (update: MockStateUpdate) => void
+
+export interface MockChainStateOpts {
+  // network of the bech32 address prefix, defaults to localhost
+  network?: Network
+
+  // rejects txs with invalid signatures or stale sequences, defaults to true
+  verifySignatures?: boolean
+}
+
+export interface MockOrderQuery {
+  account?: string
+  market?: string
+  order_status?: string
+}
+
+interface MockBalance {
+  available: BigNumber
+  order: BigNumber
+}
+
+interface MockAccount {
+  address: string
+  accountNumber: number
+  sequence: number
+  publicKey: RestModels.AccountPublicKey | null
+  balances: SimpleMap<MockBalance>
+}
+
+interface MockSnapshot {
+  accounts: SimpleMap<MockAccount>
+  orders: RestModels.Order[]
+  trades: RestModels.Trade[]
+  accountTrades: RestModels.AccountTrade[]
+}
+
+// changes collected while a tx is applied, published on commit
+interface PendingUpdates {
+  addresses: Set<string>
+  orders: RestModels.Order[]
+  trades: RestModels.Trade[]
+  accountTrades: RestModels.AccountTrade[]
+  bookLevels: Set<string>
+}
+
+const SEQUENCE_MISMATCH_LOG = "signature verification failed; verify correct account sequence and chain-id"
+
+/**
+ * In-memory state of the mock node, tracks balances, orders,
+ * trades, txs and account sequences.
+ *
+ * Supports create, cancel and cancel all order msgs with limit orders
+ * matched at the maker price, and withdrawals. Other msg types are
+ * accepted and recorded without changing state.
+ */
+export class MockChainState {
+  public readonly network: Network
+  public readonly verifySignatures: boolean
+  public height: number = 1
+
+  private accounts: SimpleMap<MockAccount> = {}
+  private orders: RestModels.Order[] = []
+  private trades: RestModels.Trade[] = []
+  private accountTrades: RestModels.AccountTrade[] = []
+  private txs: RestModels.TxnHistory[] = []
+  private listeners: MockStateListener[] = []
+
+  private nextAccountNumber: number = 1
+  private nextOrderId: number = 1
+  private nextTradeId: number = 1
+  private pending: PendingUpdates = newPendingUpdates()
+  private feeEstimator: FeeEstimator
+
+  constructor(
+    public readonly fixtures: MockFixtures,
+    opts: MockChainStateOpts = {},
+  ) {
+    this.network = opts.network ?? Network.LocalHost
+    this.verifySignatures = opts.verifySignatures ?? true
+
+    const txFees: SimpleMap<BigNumber> = {}
+    for (const item of fixtures.txnFees)
+      txFees[item.msg_type] = new BigNumber(item.fee)
+    this.feeEstimator = new FeeEstimator(txFees)
+
+    for (const account of fixtures.accounts) {
+      for (const denom in account.balances)
+        this.fund(account.address, denom, account.balances[denom])
+    }
+    this.pending = newPendingUpdates()
+  }
+
+  /**
+   * Registers a listener for websocket channel updates, returns
+   * a function that removes the listener.
+   */
+  public subscribe(listener: MockStateListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter((item) => item !== listener)
+    }
+  }
+
+  /**
+   * Credits the available balance of an account, creating
+   * the account if it does not exist.
+   */
+  public fund(address: string, denom: string, amount: string | BigNumber) {
+    const balance = this.getBalance(this.getOrCreateAccount(address), denom)
+    balance.available = balance.available.plus(amount)
+    this.pending.addresses.add(address)
+    this.publish()
+  }
+
+  public getToken(denom: string): RestModels.Token | undefined {
+    return this.fixtures.tokens.find((token) => token.denom === denom)
+  }
+
+  public getMarket(name: string): RestModels.Market | undefined {
+    return this.fixtures.markets.find((market) => market.name === name)
+  }
+
+  public getAccount(address: string): RestModels.Account {
+    const account = this.accounts[address]
+    if (!account) {
+      return { address: "", coins: [], public_key: null, account_number: "0", sequence: "0" }
+    }
+
+    const coins = Object.keys(account.balances).map((denom) => ({
+      denom,
+      amount: account.balances[denom].available.shiftedBy(this.getToken(denom)?.decimals ?? 0).toString(10),
+    }))
+    return {
+      address: account.address,
+      coins,
+      public_key: account.publicKey as RestModels.AccountPublicKey,
+      account_number: account.accountNumber.toString(),
+      sequence: account.sequence.toString(),
+    }
+  }
+
+  public getBalances(address: string): RestModels.Balances {
+    const balances: RestModels.Balances = {}
+    const account = this.accounts[address]
+    for (const denom in account?.balances ?? {}) {
+      const balance = account.balances[denom]
+      balances[denom] = {
+        denom,
+        available: balance.available.toString(10),
+        order: balance.order.toString(10),
+        position: "0",
+      }
+    }
+    return balances
+  }
+
+  public getOrder(id: string): RestModels.Order | undefined {
+    return this.orders.find((order) => order.order_id === id)
+  }
+
+  /**
+   * Returns orders matching the query, newest first.
+   */
+  public getOrders(query: MockOrderQuery = {}): RestModels.Order[] {
+    return this.orders.filter((order) =>
+      (!query.account || order.address === query.account) &&
+      (!query.market || order.market === query.market) &&
+      (!query.order_status || order.order_status === query.order_status)
+    ).reverse()
+  }
+
+  public getOrderbook(market: string): RestModels.OrderBook {
+    return {
+      asks: this.getBookLevels(market, "sell"),
+      bids: this.getBookLevels(market, "buy"),
+    }
+  }
+
+  /**
+   * Returns trades of the market and account if provided, newest first.
+   */
+  public getTrades(market?: string, account?: string): RestModels.Trade[] {
+    return this.trades.filter((trade) =>
+      (!market || trade.market === market) &&
+      (!account || trade.taker_address === account || trade.maker_address === account)
+    ).reverse()
+  }
+
+  public getAccountTrades(account: string, market?: string): RestModels.AccountTrade[] {
+    return this.accountTrades.filter((trade) =>
+      trade.address === account && (!market || trade.market === market)
+    ).reverse()
+  }
+
+  public getTx(hash: string): RestModels.TxnHistory | undefined {
+    return this.txs.find((tx) => tx.hash === hash.toUpperCase())
+  }
+
+  /**
+   * Returns txs of the address and msg type if provided, newest first.
+   */
+  public getTxs(address?: string, msgType?: string): RestModels.Txn[] {
+    return this.txs.filter((tx) =>
+      (!address || tx.address === address) &&
+      (!msgType || tx.msgs.some((msg) => msg.msg_type === msgType))
+    ).map((tx) => {
+      const { msgs, ...rest } = tx
+      return { ...rest, msg_type: msgs[0]?.msg_type ?? "", msg: msgs[0]?.msg ?? "" }
+    }).reverse()
+  }
+
+  /**
+   * Checks the signature and sequence of the tx, then applies its msgs.
+   *
+   * Txs that pass the signature and fee checks are committed in a new
+   * block, the fee is charged and the sequence incremented even if a msg
+   * fails, in which case state changes of all msgs are reverted.
+   *
+   * The fee must cover the msg fees of fixtures.txnFees, the full fee
+   * of the tx is deducted from the signer's balance.
+   */
+  public broadcast(broadcastTx: BroadcastTx): TxResponse {
+    const tx = broadcastTx.tx
+    const txhash = hashTx(tx)
+    // tx is received as JSON
+    const fee = TxFee.fromJSON(tx.fee as unknown as TxFeeJSON)
+
+    let account: MockAccount
+    try {
+      account = this.authenticate(tx, fee)
+      this.chargeFee(account, tx.msg, fee)
+      account.sequence += 1
+    } catch (error) {
+      this.pending = newPendingUpdates()
+      return failedResponse(txhash, "0", error)
+    }
+
+    const height = ++this.height
+    const blockTime = new Date().toISOString()
+
+    let response: TxResponse
+    const snapshot = this.snapshot()
+    try {
+      const logs = tx.msg.map((msg, index) => this.applyMsg(account, msg, index, height, blockTime))
+      response = {
+        height: height.toString(),
+        txhash,
+        raw_log: JSON.stringify(logs),
+        logs,
+        gas_wanted: fee.gas.toString(10),
+        gas_used: "0",
+      }
+    } catch (error) {
+      this.restore(snapshot)
+      response = failedResponse(txhash, height.toString(), error)
+    }
+
+    this.txs.push({
+      id: (this.txs.length + 1).toString(),
+      hash: txhash,
+      address: account.address,
+      username: "",
+      msgs: tx.msg.map((msg) => ({ msg_type: msg.type, msg: JSON.stringify(msg.value) })),
+      code: (response.code ?? 0).toString(),
+      gas_used: response.gas_used,
+      gas_limit: fee.gas.toString(10),
+      memo: tx.memo,
+      height: height.toString(),
+      block_time: blockTime,
+    })
+
+    this.publish()
+    return response
+  }
+
+  private authenticate(tx: TradeHubTx, fee: TxFee): MockAccount {
+    const signature = tx.signatures?.[0]
+    if (!signature)
+      throw new MockTxError(MockTxCodes.Unauthorized, "no signatures supplied")
+
+    const pubKey = signature.pub_key
+    const address = pubKey.type === PubKeyTypes.MultisigThreshold
+      ? SWTHAddress.multisigPublicKeyToAddress(pubKey as MultisigThresholdPubKey, { network: this.network })
+      : SWTHAddress.publicKeyToAddress(Buffer.from(pubKey.value as string, "base64"), { network: this.network })
+
+    const account = this.accounts[address]
+    if (!account)
+      throw new MockTxError(MockTxCodes.UnknownAddress, `account ${address} does not exist`)
+
+    // multisig signatures are not verified
+    if (this.verifySignatures && pubKey.type !== PubKeyTypes.MultisigThreshold) {
+      const doc = new StdSignDoc(account.accountNumber, account.sequence, this.fixtures.chainId, tx.msg, fee, tx.memo)
+      const message = Buffer.from(new sha256().update(doc.sortedJson()).digest())
+      const valid = secp256k1.ecdsaVerify(
+        Buffer.from(signature.signature, "base64"),
+        message,
+        Buffer.from(pubKey.value as string, "base64"),
+      )
+      if (!valid)
+        throw new MockTxError(MockTxCodes.Unauthorized, SEQUENCE_MISMATCH_LOG)
+    }
+
+    if (!account.publicKey)
+      account.publicKey = { type: pubKey.type, value: pubKey.value as string }
+
+    return account
+  }
+
+  private chargeFee(account: MockAccount, msgs: TxMsg[], fee: TxFee) {
+    const [feeAmount] = fee.amount
+    const minFee = this.feeEstimator.estimateFeeAmount(msgs)
+    if (feeAmount.denom !== "swth" || feeAmount.amount.lt(minFee))
+      throw new MockTxError(MockTxCodes.InsufficientFee, `insufficient fee: got ${feeAmount.amount.toString(10)}${feeAmount.denom}, required ${minFee.toString(10)}swth`)
+
+    const token = this.getToken(feeAmount.denom)
+    const amount = feeAmount.amount.shiftedBy(-(token?.decimals ?? 0))
+    this.debit(account, feeAmount.denom, amount, "available")
+  }
+
+  private applyMsg(account: MockAccount, msg: TxMsg, index: number, height: number, blockTime: string): TxLog {
+    const events: TxEvent[] = [{
+      type: "message",
+      attributes: [
+        { key: "action", value: msg.type.split("/").pop()! },
+        { key: "sender", value: account.address },
+      ],
+    }]
+
+    switch (msg.type) {
+      case TxTypes.Order.CREATE: {
+        const order = this.createOrder(account, msg.value as RPCParams.CreateOrder, height, blockTime)
+        events.push({
+          type: "order_created",
+          attributes: [
+            { key: "order_id", value: order.order_id },
+            { key: "market", value: order.market },
+          ],
+        })
+        break
+      }
+      case TxTypes.Order.CANCEL: {
+        const { id } = msg.value as RPCParams.CancelOrder
+        const order = this.getOrder(id)
+        if (!order || order.address !== account.address)
+          throw new MockTxError(MockTxCodes.InvalidRequest, `order ${id} not found`)
+        if (order.order_status !== "open")
+          throw new MockTxError(MockTxCodes.InvalidRequest, `order ${id} is not open`)
+        this.cancelOrder(order)
+        break
+      }
+      case TxTypes.Order.CANCEL_ALL: {
+        const { market } = msg.value as RPCParams.CancelAll
+        const orders = this.orders.filter((order) => order.address === account.address && order.market === market && order.order_status === "open")
+        for (const order of orders)
+          this.cancelOrder(order)
+        break
+      }
+      case TxTypes.Coin.CREATE_WITHDRAWAL_TYPE: {
+        const params = msg.value as RPCParams.CreateWithdrawal
+        this.debit(account, params.denom, new BigNumber(params.amount).plus(params.fee_amount), "available")
+        break
+      }
+    }
+
+    return { msg_index: index, log: "", events }
+  }
+
+  private createOrder(account: MockAccount, params: RPCParams.CreateOrder, height: number, blockTime: string): RestModels.Order {
+    const market = this.getMarket(params.market)
+    if (!market?.is_active)
+      throw new MockTxError(MockTxCodes.InvalidRequest, `market ${params.market} not found`)
+    if (params.type !== "limit")
+      throw new MockTxError(MockTxCodes.InvalidRequest, `order type ${params.type} is not supported by the mock node`)
+    if (params.side !== "buy" && params.side !== "sell")
+      throw new MockTxError(MockTxCodes.InvalidRequest, `invalid side ${params.side}`)
+
+    const quantity = new BigNumber(params.quantity)
+    const price = new BigNumber(params.price ?? NaN)
+    if (!quantity.gt(0) || !price.gt(0))
+      throw new MockTxError(MockTxCodes.InvalidRequest, "quantity and price must be positive")
+    if (quantity.lt(market.min_quantity) || !quantity.modulo(market.lot_size).isZero())
+      throw new MockTxError(MockTxCodes.InvalidRequest, `invalid quantity ${params.quantity}`)
+    if (!price.modulo(market.tick_size).isZero())
+      throw new MockTxError(MockTxCodes.InvalidRequest, `invalid price ${params.price}`)
+
+    const makers = this.getMatchingOrders(market.name, params.side, price)
+    if (params.is_post_only && makers.length)
+      throw new MockTxError(MockTxCodes.InvalidRequest, "post only order would be filled")
+    if (params.time_in_force === "fok") {
+      const fillable = makers.reduce((total, maker) => total.plus(maker.available), new BigNumber(0))
+      if (fillable.lt(quantity))
+        throw new MockTxError(MockTxCodes.InvalidRequest, "fill or kill order cannot be filled")
+    }
+
+    // lock quote for buys and base for sells
+    const [lockDenom, lockAmount] = params.side === "buy"
+      ? [market.quote, quantity.times(price)]
+      : [market.base, quantity]
+    this.debit(account, lockDenom, lockAmount, "available")
+    this.getBalance(account, lockDenom).order = this.getBalance(account, lockDenom).order.plus(lockAmount)
+
+    const order: RestModels.Order = {
+      order_id: (this.nextOrderId++).toString(),
+      block_height: height,
+      triggered_block_height: 0,
+      address: account.address,
+      market: market.name,
+      side: params.side,
+      price: price.toString(10),
+      quantity: quantity.toString(10),
+      available: quantity.toString(10),
+      filled: "0",
+      order_status: "open",
+      order_type: params.type,
+      initiator: "user",
+      time_in_force: params.time_in_force ?? "gtc",
+      stop_price: "0",
+      trigger_type: "",
+      allocated_margin_denom: lockDenom,
+      allocated_margin_amount: lockAmount.toString(10),
+      is_liquidation: false,
+      is_post_only: params.is_post_only ?? false,
+      is_reduce_only: params.is_reduce_only ?? false,
+      type: "",
+      block_created_at: blockTime,
+      username: "",
+      id: "",
+    }
+    order.id = order.order_id
+    this.orders.push(order)
+    this.touchOrder(order)
+
+    for (const maker of makers) {
+      if (new BigNumber(order.available).isZero())
+        break
+      this.fill(order, maker, height, blockTime)
+    }
+
+    if (order.order_status === "open" && (order.time_in_force === "ioc" || order.time_in_force === "fok"))
+      this.cancelOrder(order)
+
+    return order
+  }
+
+  private fill(taker: RestModels.Order, maker: RestModels.Order, height: number, blockTime: string) {
+    const market = this.getMarket(taker.market)!
+    const quantity = BigNumber.min(taker.available, maker.available)
+    const price = new BigNumber(maker.price)
+    const [buy, sell] = taker.side === "buy" ? [taker, maker] : [maker, taker]
+    const buyer = this.accounts[buy.address]
+    const seller = this.accounts[sell.address]
+
+    // buy orders locked quote at the order price, refund the difference
+    const buyerQuote = this.getBalance(buyer, market.quote)
+    buyerQuote.order = buyerQuote.order.minus(quantity.times(buy.price))
+    buyerQuote.available = buyerQuote.available.plus(quantity.times(new BigNumber(buy.price).minus(price)))
+    const buyerBase = this.getBalance(buyer, market.base)
+    buyerBase.available = buyerBase.available.plus(quantity)
+
+    const sellerBase = this.getBalance(seller, market.base)
+    sellerBase.order = sellerBase.order.minus(quantity)
+    const sellerQuote = this.getBalance(seller, market.quote)
+    sellerQuote.available = sellerQuote.available.plus(quantity.times(price))
+
+    for (const order of [taker, maker]) {
+      order.available = new BigNumber(order.available).minus(quantity).toString(10)
+      order.filled = new BigNumber(order.filled).plus(quantity).toString(10)
+      if (new BigNumber(order.available).isZero())
+        order.order_status = "filled"
+      this.touchOrder(order)
+    }
+
+    const trade: RestModels.Trade = {
+      id: (this.nextTradeId++).toString(),
+      block_created_at: blockTime,
+      taker_id: taker.order_id,
+      taker_address: taker.address,
+      taker_fee_amount: "0",
+      taker_fee_denom: market.quote,
+      taker_side: taker.side,
+      maker_id: maker.order_id,
+      maker_address: maker.address,
+      maker_fee_amount: "0",
+      maker_fee_denom: market.quote,
+      maker_side: maker.side,
+      market: market.name,
+      price: price.toString(10),
+      quantity: quantity.toString(10),
+      liquidation: "",
+      taker_username: "",
+      maker_username: "",
+      block_height: height.toString(),
+    }
+    this.trades.push(trade)
+    this.pending.trades.push(trade)
+
+    for (const order of [taker, maker]) {
+      const accountTrade: RestModels.AccountTrade = {
+        base_precision: market.base_precision,
+        quote_precision: market.quote_precision,
+        fee_precision: market.quote_precision,
+        order_id: order.order_id,
+        market: market.name,
+        side: order.side,
+        quantity: trade.quantity,
+        price: trade.price,
+        fee_amount: "0",
+        fee_denom: market.quote,
+        address: order.address,
+        block_height: trade.block_height,
+        block_created_at: blockTime,
+        id: this.accountTrades.length + 1,
+      }
+      this.accountTrades.push(accountTrade)
+      this.pending.accountTrades.push(accountTrade)
+    }
+  }
+
+  private cancelOrder(order: RestModels.Order) {
+    const market = this.getMarket(order.market)!
+    const account = this.accounts[order.address]
+    const [denom, amount] = order.side === "buy"
+      ? [market.quote, new BigNumber(order.available).times(order.price)]
+      : [market.base, new BigNumber(order.available)]
+
+    this.debit(account, denom, amount, "order")
+    this.getBalance(account, denom).available = this.getBalance(account, denom).available.plus(amount)
+
+    order.order_status = "cancelled"
+    this.touchOrder(order)
+  }
+
+  // open orders on the opposite side crossing the price, best price first
+  private getMatchingOrders(market: string, side: string, price: BigNumber): RestModels.Order[] {
+    const makerSide = side === "buy" ? "sell" : "buy"
+    return this.orders
+      .filter((order) => order.market === market && order.side === makerSide && order.order_status === "open")
+      .filter((order) => side === "buy" ? price.gte(order.price) : price.lte(order.price))
+      .sort((a, b) => {
+        const diff = new BigNumber(a.price).comparedTo(b.price)
+        return (side === "buy" ? diff : -diff) || parseInt(a.order_id) - parseInt(b.order_id)
+      })
+  }
+
+  private getBookLevels(market: string, side: string): RestModels.OrderBookRow[] {
+    const levels: SimpleMap<BigNumber> = {}
+    for (const order of this.orders) {
+      if (order.market !== market || order.side !== side || order.order_status !== "open")
+        continue
+      levels[order.price] = (levels[order.price] ?? new BigNumber(0)).plus(order.available)
+    }
+
+    return Object.keys(levels)
+      .sort((a, b) => side === "sell" ? new BigNumber(a).comparedTo(b) : new BigNumber(b).comparedTo(a))
+      .map((price) => ({ price, quantity: levels[price].toString(10) }))
+  }
+
+  private debit(account: MockAccount, denom: string, amount: BigNumber, field: keyof MockBalance) {
+    const balance = this.getBalance(account, denom)
+    if (balance[field].lt(amount))
+      throw new MockTxError(MockTxCodes.InsufficientFunds, `insufficient ${denom} ${field} balance: ${balance[field].toString(10)} < ${amount.toString(10)}`)
+
+    balance[field] = balance[field].minus(amount)
+  }
+
+  private getOrCreateAccount(address: string): MockAccount {
+    if (!this.accounts[address]) {
+      this.accounts[address] = {
+        address,
+        accountNumber: this.nextAccountNumber++,
+        sequence: 0,
+        publicKey: null,
+        balances: {},
+      }
+    }
+    return this.accounts[address]
+  }
+
+  private getBalance(account: MockAccount, denom: string): MockBalance {
+    if (!account.balances[denom])
+      account.balances[denom] = { available: new BigNumber(0), order: new BigNumber(0) }
+
+    this.pending.addresses.add(account.address)
+    return account.balances[denom]
+  }
+
+  private touchOrder(order: RestModels.Order) {
+    this.pending.orders.push(order)
+    this.pending.addresses.add(order.address)
+    this.pending.bookLevels.add([order.market, order.side, order.price].join("|"))
+  }
+
+  private snapshot(): MockSnapshot {
+    const accounts: SimpleMap<MockAccount> = {}
+    for (const address in this.accounts) {
+      const account = this.accounts[address]
+      const balances: SimpleMap<MockBalance> = {}
+      for (const denom in account.balances)
+        balances[denom] = { ...account.balances[denom] }
+      accounts[address] = { ...account, balances }
+    }
+
+    return {
+      accounts,
+      orders: this.orders.map((order) => ({ ...order })),
+      trades: [...this.trades],
+      accountTrades: [...this.accountTrades],
+    }
+  }
+
+  private restore(snapshot: MockSnapshot) {
+    // sequence and fee changes made before the snapshot are kept
+    this.accounts = snapshot.accounts
+    this.orders = snapshot.orders
+    this.trades = snapshot.trades
+    this.accountTrades = snapshot.accountTrades
+
+    const addresses = this.pending.addresses
+    this.pending = newPendingUpdates()
+    this.pending.addresses = addresses
+  }
+
+  private publish() {
+    const pending = this.pending
+    this.pending = newPendingUpdates()
+
+    for (const address of pending.addresses) {
+      this.emit(generateChannelId({ channel: WSChannel.balances, address }), this.getBalances(address))
+    }
+
+    const latestOrders: SimpleMap<RestModels.Order> = {}
+    for (const order of pending.orders)
+      latestOrders[order.order_id] = order
+    for (const order of Object.values(latestOrders)) {
+      this.emit(generateChannelId({ channel: WSChannel.orders, address: order.address }), [order])
+      this.emit(generateChannelId({ channel: WSChannel.orders_by_market, market: order.market, address: order.address }), [order])
+    }
+
+    for (const trade of pending.trades)
+      this.emit(generateChannelId({ channel: WSChannel.recent_trades, market: trade.market }), [trade])
+    for (const trade of pending.accountTrades) {
+      this.emit(generateChannelId({ channel: WSChannel.account_trades, address: trade.address }), [trade])
+      this.emit(generateChannelId({ channel: WSChannel.account_trades_by_market, market: trade.market, address: trade.address }), [trade])
+    }
+
+    for (const level of pending.bookLevels) {
+      const [market, side, price] = level.split("|")
+      const quantity = this.orders
+        .filter((order) => order.market === market && order.side === side && order.price === price && order.order_status === "open")
+        .reduce((total, order) => total.plus(order.available), new BigNumber(0))
+      this.emit(generateChannelId({ channel: WSChannel.books, market }), [{
+        market,
+        side,
+        price,
+        quantity: quantity.toString(10),
+        type: quantity.isZero() ? "delete" : "update",
+      }])
+    }
+  }
+
+  private emit(channel: string, result: unknown) {
+    for (const listener of this.listeners) {
+      try {
+        listener({ channel, result })
+      } catch (error) {
+        console.error(error)
+      }
+    }
+  }
+}
+
+const newPendingUpdates = (): PendingUpdates => ({
+  addresses: new Set(),
+  orders: [],
+  trades: [],
+  accountTrades: [],
+  bookLevels: new Set(),
+})
+
+const hashTx = (tx: TradeHubTx): string => {
+  return new sha256().update(JSON.stringify(tx)).digest("hex").toUpperCase()
+}
+
+const failedResponse = (txhash: string, height: string, error: any): TxResponse => {
+  const code = error instanceof MockTxError ? error.code : 1
+  return {
+    height,
+    txhash,
+    code,
+    codespace: "sdk",
+    raw_log: error?.message ?? "internal error",
+    logs: [],
+    gas_wanted: "0",
+    gas_used: "0",
+  }
+}
@@ -0,0 +1,159 @@
+import anyTest, { TestInterface } from "ava";
+import BigNumber from "bignumber.js";
+import { randomBytes } from "crypto";
+import { MockTradeHubNode } from "../../../mock";
+import { TradeHubSDK } from "../sdk";
+import { Network, SimpleMap, SWTHAddress, TxTypes } from "../utils";
+import { PendingTx } from "../wallet";
+
+const test = anyTest as TestInterface<{ node: MockTradeHubNode }>
+
+const MARKET = "eth1_usdc1"
+
+// create_order has no msg fee in DEFAULT_MOCK_FIXTURES, other msgs are charged the 1 SWTH default fee
+const DEFAULT_FEE = new BigNumber(1)
+
+test.before(async (t) => {
+  t.context.node = await new MockTradeHubNode().start()
+})
+
+test.after.always(async (t) => {
+  await t.context.node.stop()
+})
+
+/**
+ * Funds a new account with the given balances and connects an SDK
+ * instance to it, call TradeHubSDK.teardown when done.
+ */
+const connect = async (node: MockTradeHubNode, balances: SimpleMap<string>) => {
+  const privateKey = randomBytes(32)
+  const address = SWTHAddress.privateKeyToAddress(privateKey, { network: Network.LocalHost })
+  for (const denom in balances)
+    node.state.fund(address, denom, balances[denom])
+
+  const sdk = new TradeHubSDK({
+    network: Network.LocalHost,
+    config: node.getNetworkConfig(),
+  })
+  return sdk.connectWithPrivateKey(privateKey)
+}
+
+const waitFor = async (condition: () => boolean, timeout: number = 2000) => {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline)
+      throw new Error(`condition not met after ${timeout}ms`)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+test("creates orders and locks the order balance", async (t) => {
+  const sdk = await connect(t.context.node, { swth: "10", usdc1: "1000" })
+  const address = sdk.wallet.bech32Address
+  try {
+    const response = await sdk.order.create({ market: MARKET, side: "buy", type: "limit", quantity: "2", price: "100" })
+    t.falsy(response.code)
+    t.is(response.results.length, 1)
+
+    const order = await sdk.api.getOrder({ order_id: response.results[0].orderId })
+    t.is(order.address, address)
+    t.is(order.order_status, "open")
+
+    const balances = await sdk.api.getWalletBalance({ account: address })
+    t.is(balances.usdc1.available, "800")
+    t.is(balances.usdc1.order, "200")
+    t.is(balances.swth.available, "10")
+  } finally {
+    await sdk.teardown()
+  }
+})
+
+test("deducts tx fees from the signer's balance", async (t) => {
+  const sdk = await connect(t.context.node, { swth: "10", usdc1: "1000" })
+  const address = sdk.wallet.bech32Address
+  try {
+    await sdk.coin.withdraw({
+      to_address: "0x0000000000000000000000000000000000000000",
+      denom: "usdc1",
+      amount: "100",
+      fee_amount: "0",
+      fee_address: address,
+    })
+
+    const balances = await sdk.api.getWalletBalance({ account: address })
+    t.is(balances.usdc1.available, "900")
+    t.is(balances.swth.available, new BigNumber(10).minus(DEFAULT_FEE).toString(10))
+  } finally {
+    await sdk.teardown()
+  }
+})
+
+test("rejects txs with fees below the msg fee", async (t) => {
+  const sdk = await connect(t.context.node, { swth: "10", usdc1: "1000" })
+  const address = sdk.wallet.bech32Address
+  try {
+    await t.throwsAsync(sdk.wallet.sendTx({
+      type: TxTypes.Order.CANCEL_ALL,
+      value: { market: MARKET, originator: address },
+    }, undefined, { fee: new BigNumber(1) }), /insufficient fee/)
+
+    const balances = await sdk.api.getWalletBalance({ account: address })
+    t.is(balances.swth.available, "10")
+  } finally {
+    await sdk.teardown()
+  }
+})
+
+test("confirms txs broadcasted in sync mode", async (t) => {
+  const sdk = await connect(t.context.node, { swth: "10", usdc1: "1000" })
+  try {
+    const pendingTx = await sdk.wallet.sendTx({
+      type: TxTypes.Order.CREATE,
+      value: { market: MARKET, side: "buy", type: "limit", quantity: "1", price: "100", originator: sdk.wallet.bech32Address },
+    }, undefined, { mode: "sync" })
+    t.true(pendingTx instanceof PendingTx)
+    t.truthy(pendingTx.txhash)
+
+    const tx = await pendingTx.confirm({ pollInterval: 10 })
+    t.is(tx.hash, pendingTx.txhash)
+    t.is(tx.code, "0")
+  } finally {
+    await sdk.teardown()
+  }
+})
+
+test("publishes balance updates on the balances channel", async (t) => {
+  const sdk = await connect(t.context.node, { swth: "10", usdc1: "1000" })
+  try {
+    const updates: BigNumber[] = []
+    await sdk.subscribeWallet((result) => updates.push(result.payload.usdc1?.available))
+
+    // snapshot sent on subscribe
+    await waitFor(() => updates.length === 1)
+    t.is(updates[0].toString(10), "1000")
+
+    await sdk.order.create({ market: MARKET, side: "buy", type: "limit", quantity: "1", price: "100" })
+    await waitFor(() => updates.length === 2)
+    t.is(updates[1].toString(10), "900")
+  } finally {
+    await sdk.teardown()
+  }
+})
+
+test("replicates the order book from the books channel", async (t) => {
+  const market = "swth_usdc1"
+  const sdk = await connect(t.context.node, { swth: "1000", usdc1: "1000" })
+  try {
+    const replica = await sdk.createOrderBookReplica(market)
+    t.is(replica.getBestAsk(), undefined)
+
+    await sdk.order.create({ market, side: "sell", type: "limit", quantity: "200", price: "0.5" })
+    await waitFor(() => !!replica.getBestAsk())
+    t.is(replica.getBestAsk()!.price.toString(10), "0.5")
+    t.is(replica.getBestAsk()!.quantity.toString(10), "200")
+
+    replica.stop()
+  } finally {
+    await sdk.teardown()
+  }
+})
@@ -0,0 +1,492 @@
+import http from "http";
+import { AddressInfo } from "net";
+import querystring from "query-string";
+import NodeWebSocket from "ws";
+import { TradehubEndpoints } from "../api/spec";
+import { BroadcastTx, NetworkConfig, SimpleMap, TxTypes } from "../utils";
+import { parseChannelId } from "../websocket/channel";
+import { WSChannel, WsSubscribeBooksParams, WsSubscribeWalletBalanceParams, WsSubscriptionParams } from "../websocket/types";
+import { DEFAULT_MOCK_FIXTURES, MockFixtures } from "./fixtures";
+import { MockChainState, MockChainStateOpts, MockStateUpdate } from "./MockChainState";
+
+export type MockEndpoint = keyof typeof TradehubEndpoints
+
+export interface MockRequest {
+  method: string
+  // route params, e.g. address of /auth/accounts/:address
+  params: SimpleMap<string>
+  query: SimpleMap<string>
+  // parsed JSON body, undefined if the request has no body
+  body: unknown
+}
+
+/**
+ * Returns the JSON response body, throw MockHttpError to respond
+ * with an error status.
+ */
+export type MockRouteHandler = (request: MockRequest, state: MockChainState) => unknown
+
+export class MockHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = "MockHttpError"
+  }
+}
+
+export interface MockTradeHubNodeOpts extends MockChainStateOpts {
+  // merged into DEFAULT_MOCK_FIXTURES
+  fixtures?: Partial<MockFixtures>
+
+  // defaults to 127.0.0.1
+  host?: string
+
+  // defaults to 0, which listens on a random free port
+  port?: number
+}
+
+interface CompiledRoute {
+  endpoint: MockEndpoint
+  pattern: RegExp
+  paramNames: string[]
+}
+
+interface WSRequest {
+  id: string
+  method: string
+  params?: WSRequestParams
+}
+
+// union of the params of subscribe, unsubscribe and get_* requests
+interface WSRequestParams {
+  channels?: string[]
+  market?: string
+  address?: string
+}
+
+interface WSClientState {
+  channels: Set<string>
+  sequenceNumbers: SimpleMap<number>
+}
+
+const WS_PATH = "/ws"
+const COINGECKO_PATH = "/coingecko"
+const DEFAULT_PAGE_LIMIT = 200
+
+/**
+ * Local stand-in for a TradeHub node, serves the REST endpoints of
+ * TradehubEndpoints and the websocket API used by WSConnector from
+ * fixtures and an in-memory MockChainState.
+ *
+ * Endpoints without a mock handler respond with HTTP 404, handlers
+ * can be added or replaced with MockTradeHubNode.route.
+ *
+ * @example
+ * const node = new MockTradeHubNode()
+ * await node.start()
+ * node.state.fund(address, "swth", "1000")
+ *
+ * const sdk = new TradeHubSDK({
+ *   network: TradeHubSDK.Network.LocalHost,
+ *   config: node.getNetworkConfig(),
+ * })
+ * const connectedSDK = await sdk.connectWithPrivateKey(privateKey)
+ *
+ * await node.stop()
+ */
+export class MockTradeHubNode {
+  public readonly fixtures: MockFixtures
+  public readonly state: MockChainState
+  public readonly host: string
+
+  private port: number
+  private server?: http.Server
+  private wsServer?: NodeWebSocket.Server
+  private wsClients: Map<NodeWebSocket, WSClientState> = new Map()
+  private unsubscribeState?: () => void
+
+  private handlers: { [endpoint in MockEndpoint]?: MockRouteHandler } = { ...MOCK_ROUTES }
+  private routes: CompiledRoute[] = compileRoutes()
+
+  constructor(opts: MockTradeHubNodeOpts = {}) {
+    this.fixtures = {
+      ...DEFAULT_MOCK_FIXTURES,
+      ...opts.fixtures,
+    }
+    this.state = new MockChainState(this.fixtures, opts)
+    this.host = opts.host ?? "127.0.0.1"
+    this.port = opts.port ?? 0
+  }
+
+  public get restURL(): string {
+    return `http://${this.host}:${this.getPort()}`
+  }
+
+  public get wsURL(): string {
+    return `ws://${this.host}:${this.getPort()}${WS_PATH}`
+  }
+
+  /**
+   * Network config overrides pointing the SDK to this node.
+   */
+  public getNetworkConfig(): Partial<NetworkConfig> {
+    return {
+      RestURL: this.restURL,
+      FallbackRestURLs: [],
+      TendermintURL: this.restURL,
+      WsURL: this.wsURL,
+      FeeURL: this.restURL,
+      CoinGeckoURL: `${this.restURL}${COINGECKO_PATH}`,
+      ChainId: this.fixtures.chainId,
+    }
+  }
+
+  /**
+   * Adds or replaces the handler of an endpoint.
+   */
+  public route(endpoint: MockEndpoint, handler: MockRouteHandler): MockTradeHubNode {
+    this.handlers[endpoint] = handler
+    return this
+  }
+
+  public async start(): Promise<MockTradeHubNode> {
+    if (this.server)
+      return this
+
+    const server = http.createServer((request, response) => this.onRequest(request, response))
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject)
+      server.listen(this.port, this.host, () => {
+        server.off("error", reject)
+        resolve()
+      })
+    })
+    this.server = server
+    this.port = (server.address() as AddressInfo).port
+
+    this.wsServer = new NodeWebSocket.Server({ server, path: WS_PATH })
+    this.wsServer.on("connection", (socket: NodeWebSocket) => this.onConnection(socket))
+    this.unsubscribeState = this.state.subscribe((update) => this.onStateUpdate(update))
+
+    return this
+  }
+
+  public async stop(): Promise<void> {
+    this.unsubscribeState?.()
+    this.unsubscribeState = undefined
+
+    for (const socket of this.wsClients.keys())
+      socket.terminate()
+    this.wsClients.clear()
+
+    const wsServer = this.wsServer
+    const server = this.server
+    this.wsServer = undefined
+    this.server = undefined
+
+    await new Promise<void>((resolve) => wsServer ? wsServer.close(() => resolve()) : resolve())
+    await new Promise<void>((resolve) => server ? server.close(() => resolve()) : resolve())
+  }
+
+  private getPort(): number {
+    if (!this.server)
+      throw new Error("mock node not started")
+    return this.port
+  }
+
+  private async onRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+    const [pathname, search = ""] = (request.url ?? "/").split("?")
+    const query = querystring.parse(search) as SimpleMap<string>
+
+    let status = 200
+    let result: unknown
+    try {
+      const body = await readBody(request)
+      result = this.handle(request.method ?? "GET", pathname, query, body)
+    } catch (error) {
+      status = error instanceof MockHttpError ? error.status : 500
+      result = { error: error?.message ?? "internal error" }
+    }
+
+    response.writeHead(status, { "Content-Type": "application/json" })
+    response.end(JSON.stringify(result))
+  }
+
+  private handle(method: string, pathname: string, query: SimpleMap<string>, body: unknown): unknown {
+    if (pathname === `${COINGECKO_PATH}/simple/price`) {
+      const ids = (query.ids ?? "").split(",")
+      const prices: SimpleMap<{ usd: number }> = {}
+      for (const id of ids) {
+        if (this.fixtures.usdPrices[id] !== undefined)
+          prices[id] = { usd: this.fixtures.usdPrices[id] }
+      }
+      return prices
+    }
+
+    for (const route of this.routes) {
+      const match = pathname.match(route.pattern)
+      const handler = this.handlers[route.endpoint]
+      if (!match || !handler)
+        continue
+
+      const params: SimpleMap<string> = {}
+      route.paramNames.forEach((name, index) => params[name] = decodeURIComponent(match[index + 1]))
+      return handler({ method, params, query, body }, this.state)
+    }
+
+    throw new MockHttpError(404, `route not implemented by mock node: ${pathname}`)
+  }
+
+  private onConnection(socket: NodeWebSocket) {
+    const client: WSClientState = { channels: new Set(), sequenceNumbers: {} }
+    this.wsClients.set(socket, client)
+
+    socket.on("close", () => this.wsClients.delete(socket))
+    socket.on("message", (data: NodeWebSocket.Data) => {
+      const message = data.toString()
+      if (message === "ping") {
+        socket.send("pong")
+        return
+      }
+
+      let request: WSRequest
+      try {
+        request = JSON.parse(message)
+      } catch (error) {
+        return
+      }
+
+      try {
+        const result = this.handleWsRequest(socket, client, request.method, request.params ?? {})
+        socket.send(JSON.stringify({ id: request.id, result }))
+      } catch (error) {
+        socket.send(JSON.stringify({ id: request.id, error: { code: "bad_request", message: error?.message } }))
+      }
+    })
+  }
+
+  private handleWsRequest(socket: NodeWebSocket, client: WSClientState, method: string, params: WSRequestParams): unknown {
+    switch (method) {
+      case "subscribe": {
+        const channels: string[] = params.channels ?? []
+        for (const channel of channels) {
+          client.channels.add(channel)
+          const snapshot = this.getChannelSnapshot(channel)
+          if (snapshot !== undefined)
+            setTimeout(() => this.sendChannelUpdate(socket, client, { channel, result: snapshot }))
+        }
+        return channels
+      }
+      case "unsubscribe": {
+        const channels: string[] = params.channels ?? []
+        for (const channel of channels)
+          client.channels.delete(channel)
+        return channels
+      }
+      case "get_recent_trades":
+        return this.state.getTrades(params.market)
+      case "get_open_orders":
+        return this.state.getOrders({ account: params.address, market: params.market, order_status: "open" })
+      case "get_order_history":
+        return this.state.getOrders({ account: params.address, market: params.market })
+      case "get_account_trades":
+        return this.state.getAccountTrades(params.address, params.market)
+      case "get_candlesticks":
+      case "get_market_stats":
+      case "get_leverages":
+      case "get_open_positions":
+      case "get_closed_positions":
+        return []
+      default:
+        throw new Error(`method not found: ${method}`)
+    }
+  }
+
+  // initial data sent on subscribe, channels without snapshots only receive updates
+  private getChannelSnapshot(channelId: string): unknown {
+    let params: WsSubscriptionParams
+    try {
+      params = parseChannelId(channelId)
+    } catch (error) {
+      return undefined
+    }
+
+    switch (params.channel) {
+      case WSChannel.balances: {
+        const { address } = params as WsSubscribeWalletBalanceParams
+        return this.state.getBalances(address)
+      }
+      case WSChannel.books: {
+        const { market } = params as WsSubscribeBooksParams
+        const { asks, bids } = this.state.getOrderbook(market)
+        return [
+          ...asks.map((row) => ({ market, side: "sell", ...row, type: "new" })),
+          ...bids.map((row) => ({ market, side: "buy", ...row, type: "new" })),
+        ]
+      }
+      default:
+        return undefined
+    }
+  }
+
+  private onStateUpdate(update: MockStateUpdate) {
+    for (const [socket, client] of this.wsClients.entries()) {
+      if (client.channels.has(update.channel))
+        this.sendChannelUpdate(socket, client, update)
+    }
+  }
+
+  private sendChannelUpdate(socket: NodeWebSocket, client: WSClientState, update: MockStateUpdate) {
+    if (!client.channels.has(update.channel))
+      return
+
+    const sequenceNumber = (client.sequenceNumbers[update.channel] ?? 0) + 1
+    client.sequenceNumbers[update.channel] = sequenceNumber
+    socket.send(JSON.stringify({
+      channel: update.channel,
+      sequence_number: sequenceNumber,
+      result: update.result,
+    }))
+  }
+}
+
+const readBody = (request: http.IncomingMessage): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    request.on("data", (chunk: Buffer) => chunks.push(chunk))
+    request.on("error", reject)
+    request.on("end", () => {
+      const body = Buffer.concat(chunks).toString()
+      try {
+        resolve(body ? JSON.parse(body) : undefined)
+      } catch (error) {
+        reject(new MockHttpError(400, "invalid JSON body"))
+      }
+    })
+  })
+}
+
+const compileRoutes = (): CompiledRoute[] => {
+  return (Object.keys(TradehubEndpoints) as MockEndpoint[]).map((endpoint) => {
+    const paramNames: string[] = []
+    const source = TradehubEndpoints[endpoint].replace(/:(\w+)/g, (_, name) => {
+      paramNames.push(name)
+      return "([^/]+)"
+    })
+    return { endpoint, pattern: new RegExp(`^${source}$`), paramNames }
+  })
+}
+
+const requireParam = (query: SimpleMap<string>, name: string): string => {
+  if (!query[name])
+    throw new MockHttpError(400, `${name} is required`)
+  return query[name]
+}
+
+const requireFound = <T>(value: T | undefined, message: string): T => {
+  if (value === undefined)
+    throw new MockHttpError(404, message)
+  return value
+}
+
+/**
+ * Applies limit, before_id and after_id params, and wraps the records
+ * in ResultsMinMax if the pagination param is set.
+ */
+const paginate = <T>(records: T[], query: SimpleMap<string>, getId: (record: T) => string | number): unknown => {
+  const ids = records.map((record) => Number(getId(record)))
+  const limit = parseInt(query.limit ?? "") || DEFAULT_PAGE_LIMIT
+
+  // newest records first unless ascending order is requested
+  const order = query.order_by === "asc" ? 1 : -1
+  const data = records.filter((record) => {
+    const id = Number(getId(record))
+    return (!query.before_id || id < Number(query.before_id)) &&
+      (!query.after_id || id > Number(query.after_id))
+  }).sort((a, b) => order * (Number(getId(a)) - Number(getId(b)))).slice(0, limit)
+
+  if (query.pagination !== "true")
+    return data
+
+  return {
+    data,
+    min: ids.length ? Math.min(...ids) : 0,
+    max: ids.length ? Math.max(...ids) : 0,
+  }
+}
+
+const getAccount: MockRouteHandler = (request, state) => ({
+  height: state.height.toString(),
+  result: {
+    type: "cosmos-sdk/Account",
+    value: state.getAccount(request.params.address ?? requireParam(request.query, "account")),
+  },
+})
+
+const getMarkets: MockRouteHandler = (_, state) => state.fixtures.markets
+
+const MOCK_ROUTES: { [endpoint in MockEndpoint]?: MockRouteHandler } = {
+  "tradehub/txs": (request, state) => {
+    if (request.method !== "POST")
+      throw new MockHttpError(405, "method not allowed")
+    return state.broadcast(request.body as BroadcastTx)
+  },
+  "tradehub/get_tx": (request, state) => {
+    const hash = requireParam(request.query, "hash")
+    return requireFound(state.getTx(hash), `tx not found: ${hash}`)
+  },
+  "tradehub/get_txs": (request, state) => {
+    return paginate(state.getTxs(request.query.address, request.query.msg_type), request.query, (tx) => tx.id)
+  },
+  "tradehub/get_txns_fees": (_, state) => ({
+    height: state.height.toString(),
+    result: state.fixtures.txnFees,
+  }),
+  "tradehub/get_tx_types": () => {
+    const types: string[] = []
+    for (const group of Object.values(TxTypes))
+      types.push(...Object.values(group))
+    return types
+  },
+  "tradehub/get_token": (request, state) => {
+    const denom = requireParam(request.query, "token")
+    return requireFound(state.getToken(denom), `token not found: ${denom}`)
+  },
+  "tradehub/get_tokens": (_, state) => state.fixtures.tokens,
+  "tradehub/coin/mapping": (_, state) => ({
+    height: state.height.toString(),
+    result: state.fixtures.coinMapping,
+  }),
+
+  "account/detail": getAccount,
+  "account/info": getAccount,
+  "account/get_balance": (request, state) => state.getBalances(requireParam(request.query, "account")),
+
+  "markets/list": getMarkets,
+  "markets/get_markets": getMarkets,
+  "markets/get_market": (request, state) => {
+    const market = requireParam(request.query, "market")
+    return requireFound(state.getMarket(market), `market not found: ${market}`)
+  },
+  "markets/get_orderbook": (request, state) => state.getOrderbook(requireParam(request.query, "market")),
+  "markets/get_liquidity_pools": () => [],
+
+  "history/get_order": (request, state) => {
+    const orderId = requireParam(request.query, "order_id")
+    return requireFound(state.getOrder(orderId), `order not found: ${orderId}`)
+  },
+  "history/get_orders": (request, state) => {
+    const { account, market, order_status } = request.query
+    return paginate(state.getOrders({ account, market, order_status }), request.query, (order) => order.order_id)
+  },
+  "history/get_trades": (request, state) => {
+    return paginate(state.getTrades(request.query.market, request.query.account), request.query, (trade) => trade.id)
+  },
+  "history/get_account_trades": (request, state) => {
+    const account = requireParam(request.query, "account")
+    return paginate(state.getAccountTrades(account, request.query.market), request.query, (trade) => trade.id)
+  },
+  "history/get_positions": (request) => paginate([], request.query, () => 0),
+}
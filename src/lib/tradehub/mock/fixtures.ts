@@ -0,0 +1,103 @@
+import { RestModels } from "../models";
+import { NetworkConfigs, SimpleMap } from "../utils";
+
+export interface MockAccountFixture {
+  address: string
+
+  // available balances keyed by denom, in human readable units
+  balances: SimpleMap<string>
+}
+
+export interface MockTxnFeeFixture {
+  msg_type: string
+  fee: string
+}
+
+export interface MockFixtures {
+  chainId: string
+  tokens: RestModels.Token[]
+  markets: RestModels.Market[]
+  txnFees: MockTxnFeeFixture[]
+  coinMapping: SimpleMap<string>
+
+  // USD prices keyed by CoinGecko coin ID
+  usdPrices: SimpleMap<number>
+
+  accounts: MockAccountFixture[]
+}
+
+const mockToken = (denom: string, symbol: string, name: string, decimals: number, blockchain: string): RestModels.Token => ({
+  name,
+  symbol,
+  denom,
+  decimals,
+  blockchain,
+  chain_id: 0,
+  asset_id: "",
+  is_active: true,
+  is_collateral: false,
+  lock_proxy_hash: "",
+  delegated_supply: "0",
+  originator: "",
+})
+
+const mockSpotMarket = (base: RestModels.Token, quote: RestModels.Token, opts: Pick<RestModels.Market, "lot_size" | "tick_size" | "min_quantity">): RestModels.Market => ({
+  type: "",
+  name: `${base.denom}_${quote.denom}`,
+  display_name: `${base.symbol}_${quote.symbol}`,
+  description: `${base.symbol}/${quote.symbol} Spot Market`,
+  market_type: "spot",
+  base: base.denom,
+  base_name: base.symbol,
+  base_precision: base.decimals,
+  quote: quote.denom,
+  quote_name: quote.symbol,
+  quote_precision: quote.decimals,
+  ...opts,
+  maker_fee: "0",
+  taker_fee: "0",
+  risk_step_size: "0",
+  initial_margin_base: "1",
+  initial_margin_step: "0",
+  maintenance_margin_ratio: "0",
+  max_liquidation_order_ticket: "0",
+  max_liquidation_order_duration: 0,
+  impact_size: "0",
+  mark_price_band: 0,
+  last_price_protected_band: 0,
+  index_oracle_id: "",
+  expiry_time: "1970-01-01T00:00:00Z",
+  is_active: true,
+  is_settled: false,
+  closed_block_height: 0,
+  created_block_height: 1,
+})
+
+const SWTH = mockToken("swth", "SWTH", "Switcheo", 8, "native")
+const ETH = mockToken("eth1", "ETH", "Ethereum", 18, "eth")
+const USDC = mockToken("usdc1", "USDC", "USD Coin", 6, "eth")
+
+/**
+ * Tokens, markets and fees served by MockTradeHubNode if not
+ * overridden, accounts are empty and can be funded with
+ * MockChainState.fund.
+ */
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  chainId: NetworkConfigs.localhost.ChainId,
+  tokens: [SWTH, ETH, USDC],
+  markets: [
+    mockSpotMarket(ETH, USDC, { lot_size: "0.001", tick_size: "0.01", min_quantity: "0.01" }),
+    mockSpotMarket(SWTH, USDC, { lot_size: "1", tick_size: "0.0001", min_quantity: "100" }),
+  ],
+  txnFees: [
+    { msg_type: "default_fee", fee: "100000000" },
+    { msg_type: "create_order", fee: "0" },
+  ],
+  coinMapping: {},
+  usdPrices: {
+    switcheo: 0.05,
+    ethereum: 2000,
+    "usd-coin": 1,
+  },
+  accounts: [],
+}
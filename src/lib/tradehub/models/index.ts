@@ -1,3 +1,5 @@
 export * as RestModels from "./rest";
 export * as WSResponse from "./ws";
 export * as RPCParams from "./rpc";
+export * as ParsedModels from "./parsed";
+export * as TMModels from "./tm";
@@ -0,0 +1,30 @@
+import BigNumber from "bignumber.js";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+export interface Balance extends Omit<RestModels.Balance, "available" | "order" | "position"> {
+  available: BigNumber
+  order: BigNumber
+  position: BigNumber
+}
+
+export interface Balances {
+  [key: string]: Balance
+}
+
+export const decodeBalance = (input: RestModels.Balance): Balance => {
+  const decoder = new ModelDecoder("Balance", input, ["denom", "available"]);
+  return {
+    ...input,
+    available: decoder.bn("available"),
+    order: decoder.optionalBN("order") ?? new BigNumber(0),
+    position: decoder.optionalBN("position") ?? new BigNumber(0),
+  };
+}
+
+export const decodeBalances = (input: RestModels.Balances): Balances => {
+  const output: Balances = {};
+  for (const denom in input)
+    output[denom] = decodeBalance(input[denom]);
+  return output;
+}
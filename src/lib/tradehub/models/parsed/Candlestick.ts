@@ -0,0 +1,30 @@
+import BigNumber from "bignumber.js";
+import { Dayjs } from "dayjs";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+type DecodedFields = "time" | "open" | "close" | "high" | "low" | "volume" | "quote_volume"
+
+export interface Candlestick extends Omit<RestModels.Candlestick, DecodedFields> {
+  time: Dayjs
+  open: BigNumber
+  close: BigNumber
+  high: BigNumber
+  low: BigNumber
+  volume: BigNumber
+  quote_volume: BigNumber
+}
+
+export const decodeCandlestick = (input: RestModels.Candlestick): Candlestick => {
+  const decoder = new ModelDecoder("Candlestick", input, ["market", "time", "open", "close", "high", "low"]);
+  return {
+    ...input,
+    time: decoder.date("time"),
+    open: decoder.bn("open"),
+    close: decoder.bn("close"),
+    high: decoder.bn("high"),
+    low: decoder.bn("low"),
+    volume: decoder.optionalBN("volume") ?? new BigNumber(0),
+    quote_volume: decoder.optionalBN("quote_volume") ?? new BigNumber(0),
+  };
+}
@@ -0,0 +1,15 @@
+import BigNumber from "bignumber.js";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+export interface Leverage extends Omit<RestModels.Leverage, "leverage"> {
+  leverage: BigNumber
+}
+
+export const decodeLeverage = (input: RestModels.Leverage): Leverage => {
+  const decoder = new ModelDecoder("Leverage", input, ["market", "leverage"]);
+  return {
+    ...input,
+    leverage: decoder.bn("leverage"),
+  };
+}
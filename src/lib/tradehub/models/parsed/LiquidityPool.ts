@@ -0,0 +1,34 @@
+import BigNumber from "bignumber.js";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+type DecodedFields = "amount_a" | "weight_a" | "amount_b" | "weight_b" | "swap_fee"
+  | "rewards_weight" | "shares_amount" | "total_commitment" | "volume"
+
+export interface LiquidityPool extends Omit<RestModels.LiquidityPool, DecodedFields> {
+  amount_a: BigNumber
+  weight_a: BigNumber
+  amount_b: BigNumber
+  weight_b: BigNumber
+  swap_fee: BigNumber
+  rewards_weight: BigNumber
+  shares_amount: BigNumber
+  total_commitment: BigNumber
+  volume: BigNumber
+}
+
+export const decodeLiquidityPool = (input: RestModels.LiquidityPool): LiquidityPool => {
+  const decoder = new ModelDecoder("LiquidityPool", input, ["pool_id", "denom", "denom_a", "denom_b"]);
+  return {
+    ...input,
+    amount_a: decoder.optionalBN("amount_a") ?? new BigNumber(0),
+    weight_a: decoder.optionalBN("weight_a") ?? new BigNumber(0),
+    amount_b: decoder.optionalBN("amount_b") ?? new BigNumber(0),
+    weight_b: decoder.optionalBN("weight_b") ?? new BigNumber(0),
+    swap_fee: decoder.optionalBN("swap_fee") ?? new BigNumber(0),
+    rewards_weight: decoder.optionalBN("rewards_weight") ?? new BigNumber(0),
+    shares_amount: decoder.optionalBN("shares_amount") ?? new BigNumber(0),
+    total_commitment: decoder.optionalBN("total_commitment") ?? new BigNumber(0),
+    volume: decoder.optionalBN("volume") ?? new BigNumber(0),
+  };
+}
@@ -0,0 +1,43 @@
+import BigNumber from "bignumber.js";
+import { Dayjs } from "dayjs";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+type DecodedFields = "lot_size" | "tick_size" | "min_quantity" | "maker_fee" | "taker_fee"
+  | "risk_step_size" | "initial_margin_base" | "initial_margin_step" | "maintenance_margin_ratio"
+  | "max_liquidation_order_ticket" | "impact_size" | "expiry_time"
+
+export interface Market extends Omit<RestModels.Market, DecodedFields> {
+  lot_size: BigNumber
+  tick_size: BigNumber
+  min_quantity: BigNumber
+  maker_fee: BigNumber
+  taker_fee: BigNumber
+  risk_step_size: BigNumber
+  initial_margin_base: BigNumber
+  initial_margin_step: BigNumber
+  maintenance_margin_ratio: BigNumber
+  max_liquidation_order_ticket: BigNumber
+  impact_size: BigNumber
+  // undefined for markets without expiry, e.g. spot markets
+  expiry_time?: Dayjs
+}
+
+export const decodeMarket = (input: RestModels.Market): Market => {
+  const decoder = new ModelDecoder("Market", input, ["name", "market_type", "base", "quote", "lot_size", "tick_size", "min_quantity"]);
+  return {
+    ...input,
+    lot_size: decoder.bn("lot_size"),
+    tick_size: decoder.bn("tick_size"),
+    min_quantity: decoder.bn("min_quantity"),
+    maker_fee: decoder.optionalBN("maker_fee") ?? new BigNumber(0),
+    taker_fee: decoder.optionalBN("taker_fee") ?? new BigNumber(0),
+    risk_step_size: decoder.optionalBN("risk_step_size") ?? new BigNumber(0),
+    initial_margin_base: decoder.optionalBN("initial_margin_base") ?? new BigNumber(0),
+    initial_margin_step: decoder.optionalBN("initial_margin_step") ?? new BigNumber(0),
+    maintenance_margin_ratio: decoder.optionalBN("maintenance_margin_ratio") ?? new BigNumber(0),
+    max_liquidation_order_ticket: decoder.optionalBN("max_liquidation_order_ticket") ?? new BigNumber(0),
+    impact_size: decoder.optionalBN("impact_size") ?? new BigNumber(0),
+    expiry_time: decoder.optionalDate("expiry_time"),
+  };
+}
@@ -0,0 +1,36 @@
+import BigNumber from "bignumber.js";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+type DecodedFields = "day_high" | "day_low" | "day_open" | "day_close" | "day_volume"
+  | "day_quote_volume" | "index_price" | "mark_price" | "last_price" | "open_interest"
+
+export interface MarketStat extends Omit<RestModels.MarketStat, DecodedFields> {
+  day_high: BigNumber
+  day_low: BigNumber
+  day_open: BigNumber
+  day_close: BigNumber
+  day_volume: BigNumber
+  day_quote_volume: BigNumber
+  index_price: BigNumber
+  mark_price: BigNumber
+  last_price: BigNumber
+  open_interest: BigNumber
+}
+
+export const decodeMarketStat = (input: RestModels.MarketStat): MarketStat => {
+  const decoder = new ModelDecoder("MarketStat", input, ["market"]);
+  return {
+    ...input,
+    day_high: decoder.optionalBN("day_high") ?? new BigNumber(0),
+    day_low: decoder.optionalBN("day_low") ?? new BigNumber(0),
+    day_open: decoder.optionalBN("day_open") ?? new BigNumber(0),
+    day_close: decoder.optionalBN("day_close") ?? new BigNumber(0),
+    day_volume: decoder.optionalBN("day_volume") ?? new BigNumber(0),
+    day_quote_volume: decoder.optionalBN("day_quote_volume") ?? new BigNumber(0),
+    index_price: decoder.optionalBN("index_price") ?? new BigNumber(0),
+    mark_price: decoder.optionalBN("mark_price") ?? new BigNumber(0),
+    last_price: decoder.optionalBN("last_price") ?? new BigNumber(0),
+    open_interest: decoder.optionalBN("open_interest") ?? new BigNumber(0),
+  };
+}
@@ -0,0 +1,31 @@
+import BigNumber from "bignumber.js";
+import { Dayjs } from "dayjs";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+type DecodedFields = "price" | "quantity" | "available" | "filled" | "stop_price"
+  | "allocated_margin_amount" | "block_created_at"
+
+export interface Order extends Omit<RestModels.Order, DecodedFields> {
+  price: BigNumber
+  quantity: BigNumber
+  available: BigNumber
+  filled: BigNumber
+  stop_price: BigNumber
+  allocated_margin_amount: BigNumber
+  block_created_at?: Dayjs
+}
+
+export const decodeOrder = (input: RestModels.Order): Order => {
+  const decoder = new ModelDecoder("Order", input, ["order_id", "market", "side", "quantity"]);
+  return {
+    ...input,
+    price: decoder.optionalBN("price") ?? new BigNumber(0),
+    quantity: decoder.bn("quantity"),
+    available: decoder.optionalBN("available") ?? new BigNumber(0),
+    filled: decoder.optionalBN("filled") ?? new BigNumber(0),
+    stop_price: decoder.optionalBN("stop_price") ?? new BigNumber(0),
+    allocated_margin_amount: decoder.optionalBN("allocated_margin_amount") ?? new BigNumber(0),
+    block_created_at: decoder.optionalDate("block_created_at"),
+  };
+}
@@ -0,0 +1,41 @@
+import BigNumber from "bignumber.js";
+import { Dayjs } from "dayjs";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+type DecodedFields = "allocated_margin_amount" | "created_block_height" | "entry_price" | "lots"
+  | "realized_pnl" | "unrealized_pnl" | "total_pnl" | "closed_block_height" | "closed_block_time"
+  | "updated_block_height" | "est_liquidation_price"
+
+export interface Position extends Omit<RestModels.Position, DecodedFields> {
+  allocated_margin_amount: BigNumber
+  created_block_height: number
+  entry_price: BigNumber
+  lots: BigNumber
+  realized_pnl: BigNumber
+
+  unrealized_pnl?: BigNumber
+  total_pnl?: BigNumber
+  closed_block_height?: number
+  closed_block_time?: Dayjs
+  updated_block_height?: number
+  est_liquidation_price?: BigNumber
+}
+
+export const decodePosition = (input: RestModels.Position): Position => {
+  const decoder = new ModelDecoder("Position", input, ["market", "address", "lots", "entry_price"]);
+  return {
+    ...input,
+    allocated_margin_amount: decoder.optionalBN("allocated_margin_amount") ?? new BigNumber(0),
+    created_block_height: decoder.optionalInt("created_block_height") ?? 0,
+    entry_price: decoder.bn("entry_price"),
+    lots: decoder.bn("lots"),
+    realized_pnl: decoder.optionalBN("realized_pnl") ?? new BigNumber(0),
+    unrealized_pnl: decoder.optionalBN("unrealized_pnl"),
+    total_pnl: decoder.optionalBN("total_pnl"),
+    closed_block_height: decoder.optionalInt("closed_block_height"),
+    closed_block_time: decoder.optionalDate("closed_block_time"),
+    updated_block_height: decoder.optionalInt("updated_block_height"),
+    est_liquidation_price: decoder.optionalBN("est_liquidation_price"),
+  };
+}
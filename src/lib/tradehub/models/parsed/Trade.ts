@@ -0,0 +1,51 @@
+import BigNumber from "bignumber.js";
+import { Dayjs } from "dayjs";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+type DecodedTradeFields = "price" | "quantity" | "taker_fee_amount" | "maker_fee_amount"
+  | "block_height" | "block_created_at"
+
+export interface Trade extends Omit<RestModels.Trade, DecodedTradeFields> {
+  price: BigNumber
+  quantity: BigNumber
+  taker_fee_amount: BigNumber
+  maker_fee_amount: BigNumber
+  block_height: number
+  block_created_at?: Dayjs
+}
+
+type DecodedAccountTradeFields = "price" | "quantity" | "fee_amount" | "block_height" | "block_created_at"
+
+export interface AccountTrade extends Omit<RestModels.AccountTrade, DecodedAccountTradeFields> {
+  price: BigNumber
+  quantity: BigNumber
+  fee_amount: BigNumber
+  block_height: number
+  block_created_at?: Dayjs
+}
+
+export const decodeTrade = (input: RestModels.Trade): Trade => {
+  const decoder = new ModelDecoder("Trade", input, ["market", "price", "quantity"]);
+  return {
+    ...input,
+    price: decoder.bn("price"),
+    quantity: decoder.bn("quantity"),
+    taker_fee_amount: decoder.optionalBN("taker_fee_amount") ?? new BigNumber(0),
+    maker_fee_amount: decoder.optionalBN("maker_fee_amount") ?? new BigNumber(0),
+    block_height: decoder.optionalInt("block_height") ?? 0,
+    block_created_at: decoder.optionalDate("block_created_at"),
+  };
+}
+
+export const decodeAccountTrade = (input: RestModels.AccountTrade): AccountTrade => {
+  const decoder = new ModelDecoder("AccountTrade", input, ["market", "price", "quantity"]);
+  return {
+    ...input,
+    price: decoder.bn("price"),
+    quantity: decoder.bn("quantity"),
+    fee_amount: decoder.optionalBN("fee_amount") ?? new BigNumber(0),
+    block_height: decoder.optionalInt("block_height") ?? 0,
+    block_created_at: decoder.optionalDate("block_created_at"),
+  };
+}
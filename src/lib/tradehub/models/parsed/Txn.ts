@@ -0,0 +1,24 @@
+import BigNumber from "bignumber.js";
+import { Dayjs } from "dayjs";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+export interface Txn extends Omit<RestModels.Txn, "code" | "gas_used" | "gas_limit" | "height" | "block_time"> {
+  code: number
+  gas_used: BigNumber
+  gas_limit: BigNumber
+  height: number
+  block_time: Dayjs
+}
+
+export const decodeTxn = (input: RestModels.Txn): Txn => {
+  const decoder = new ModelDecoder("Txn", input, ["hash", "msg_type", "height", "block_time"]);
+  return {
+    ...input,
+    code: decoder.optionalInt("code") ?? 0,
+    gas_used: decoder.optionalBN("gas_used") ?? new BigNumber(0),
+    gas_limit: decoder.optionalBN("gas_limit") ?? new BigNumber(0),
+    height: decoder.int("height"),
+    block_time: decoder.date("block_time"),
+  };
+}
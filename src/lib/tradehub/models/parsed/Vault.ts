@@ -0,0 +1,31 @@
+import BigNumber from "bignumber.js";
+import * as RestModels from "../rest";
+import { ModelDecoder } from "./decoder";
+
+export interface VaultType extends Omit<RestModels.VaultType, "collateralization_ratio"> {
+  collateralization_ratio: BigNumber
+}
+
+export interface Vault extends Omit<RestModels.Vault, "collateral" | "debt"> {
+  collateral: BigNumber
+  debt: BigNumber
+}
+
+export const decodeVaultType = (input: RestModels.VaultType): VaultType => {
+  const decoder = new ModelDecoder("VaultType", input, ["id", "collateral_denom", "debt_denom", "collateralization_ratio"]);
+  return {
+    ...input,
+    id: String(input.id),
+    collateralization_ratio: decoder.bn("collateralization_ratio"),
+  };
+}
+
+export const decodeVault = (input: RestModels.Vault): Vault => {
+  const decoder = new ModelDecoder("Vault", input, ["owner", "vault_type_id"]);
+  return {
+    ...input,
+    vault_type_id: String(input.vault_type_id),
+    collateral: decoder.optionalBN("collateral") ?? new BigNumber(0),
+    debt: decoder.optionalBN("debt") ?? new BigNumber(0),
+  };
+}
@@ -0,0 +1,93 @@
+import { parseCosmosDate } from "@lib/tradehub/api/spec/util";
+import BigNumber from "bignumber.js";
+import { Dayjs } from "dayjs";
+
+export class ModelDecodeError extends Error {
+  constructor(
+    public readonly model: string,
+    public readonly field: string,
+    message: string,
+  ) {
+    super(`cannot decode ${model}.${field}: ${message}`);
+  }
+}
+
+/**
+ * Reads fields of a REST model, throwing ModelDecodeError for
+ * missing required fields and malformed values.
+ */
+export class ModelDecoder<T> {
+  constructor(
+    public readonly model: string,
+    public readonly input: T,
+    requiredFields: Array<keyof T> = [],
+  ) {
+    if (!input || typeof input !== "object")
+      throw new ModelDecodeError(model, "*", `expected object, received ${input === null ? "null" : typeof input}`);
+
+    for (const field of requiredFields) {
+      if (this.isEmpty(field))
+        throw new ModelDecodeError(model, field as string, "required field is missing");
+    }
+  }
+
+  public bn(field: keyof T): BigNumber {
+    const value = this.optionalBN(field);
+    if (!value)
+      throw new ModelDecodeError(this.model, field as string, "required field is missing");
+    return value;
+  }
+
+  public optionalBN(field: keyof T): BigNumber | undefined {
+    if (this.isEmpty(field))
+      return undefined;
+
+    const value = new BigNumber(this.input[field] as unknown as string);
+    if (!value.isFinite())
+      throw new ModelDecodeError(this.model, field as string, `invalid number ${this.input[field]}`);
+    return value;
+  }
+
+  public int(field: keyof T): number {
+    const value = this.optionalInt(field);
+    if (value === undefined)
+      throw new ModelDecodeError(this.model, field as string, "required field is missing");
+    return value;
+  }
+
+  public optionalInt(field: keyof T): number | undefined {
+    const value = this.optionalBN(field);
+    if (value && !value.isInteger())
+      throw new ModelDecodeError(this.model, field as string, `invalid integer ${this.input[field]}`);
+    return value?.toNumber();
+  }
+
+  /**
+   * Throws for missing values and the cosmos null date.
+   */
+  public date(field: keyof T): Dayjs {
+    const value = this.optionalDate(field);
+    if (!value)
+      throw new ModelDecodeError(this.model, field as string, "required field is missing");
+    return value;
+  }
+
+  /**
+   * Returns undefined for missing values and the cosmos null date.
+   */
+  public optionalDate(field: keyof T): Dayjs | undefined {
+    if (this.isEmpty(field))
+      return undefined;
+
+    const value = this.input[field] as unknown as string;
+    const result = parseCosmosDate(value);
+    if (result && !result.isValid())
+      throw new ModelDecodeError(this.model, field as string, `invalid date ${value}`);
+    return result;
+  }
+
+  private isEmpty(field: keyof T): boolean {
+    const value = this.input[field] as unknown;
+    return value === undefined || value === null || value === "";
+  }
+}
@@ -0,0 +1,12 @@
+export * from './Balance'
+export * from './Candlestick'
+export * from './decoder'
+export * from './Leverage'
+export * from './LiquidityPool'
+export * from './Market'
+export * from './MarketStat'
+export * from './Order'
+export * from './Position'
+export * from './Trade'
+export * from './Txn'
+export * from './Vault'
@@ -0,0 +1,9 @@
+export interface Vault {
+  id: string
+  owner: string
+  vault_type_id: string
+
+  // amounts in the smallest unit of the vault type denoms
+  collateral: string
+  debt: string
+}
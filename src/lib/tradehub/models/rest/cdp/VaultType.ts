@@ -0,0 +1,8 @@
+export interface VaultType {
+  id: string
+  collateral_denom: string
+  debt_denom: string
+
+  // min collateral value to debt value ratio, vaults below it can be liquidated
+  collateralization_ratio: string
+}
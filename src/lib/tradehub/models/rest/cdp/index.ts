@@ -0,0 +1,2 @@
+export * from './Vault'
+export * from './VaultType'
@@ -1,6 +1,7 @@
 export * from './account'
 export * from './balances/Fees'
 export * from './balances/NeoBalances'
+export * from './cdp'
 export * from './gov'
 export * from './history'
 export * from './market'
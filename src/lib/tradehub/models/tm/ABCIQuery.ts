@@ -0,0 +1,14 @@
+export interface ABCIQuery {
+  response: {
+    code: number
+    log: string
+    info: string
+    index: string
+    // base64 encoded key and value
+    key: string | null
+    value: string | null
+    proof?: unknown
+    height: string
+    codespace: string
+  }
+}
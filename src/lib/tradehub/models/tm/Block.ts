@@ -0,0 +1,64 @@
+import { BlockID } from "./Common";
+
+export interface Header {
+  version: {
+    block: string
+    app: string
+  }
+  chain_id: string
+  height: string
+  time: string
+  last_block_id: BlockID
+  last_commit_hash: string
+  data_hash: string
+  validators_hash: string
+  next_validators_hash: string
+  consensus_hash: string
+  app_hash: string
+  last_results_hash: string
+  evidence_hash: string
+  proposer_address: string
+}
+
+export interface CommitSig {
+  block_id_flag: number
+  validator_address: string
+  timestamp: string
+  signature: string | null
+}
+
+export interface Commit {
+  height: string
+  round: string | number
+  block_id: BlockID
+  signatures: CommitSig[]
+}
+
+export interface Block {
+  header: Header
+  data: {
+    // base64 encoded txs
+    txs: string[] | null
+  }
+  evidence: {
+    evidence: unknown[] | null
+  }
+  last_commit: Commit
+}
+
+export interface BlockResponse {
+  block_id: BlockID
+  block: Block
+}
+
+export interface BlockMeta {
+  block_id: BlockID
+  header: Header
+  block_size?: string
+  num_txs?: string
+}
+
+export interface Blockchain {
+  last_height: string
+  block_metas: BlockMeta[]
+}
@@ -0,0 +1,32 @@
+export interface PubKey {
+  type: string
+  value: string
+}
+
+export interface PartSetHeader {
+  total: number
+  hash: string
+}
+
+export interface BlockID {
+  hash: string
+  parts: PartSetHeader
+}
+
+export interface NodeInfo {
+  protocol_version: {
+    p2p: string
+    block: string
+    app: string
+  }
+  id: string
+  listen_addr: string
+  network: string
+  version: string
+  channels: string
+  moniker: string
+  other: {
+    tx_index: string
+    rpc_address: string
+  }
+}
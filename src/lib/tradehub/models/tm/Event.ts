@@ -0,0 +1,26 @@
+import { BlockEvent, BlockEventAttr } from "../rest";
+import { SimpleMap } from "@lib/tradehub/utils";
+
+export interface RawEvent {
+  type: string
+  attributes: BlockEventAttr[] | null
+}
+
+const decodeBase64 = (value: string): string => {
+  if (typeof window !== "undefined" && typeof window.atob === "function")
+    return window.atob(value);
+  return Buffer.from(value, "base64").toString("utf8");
+}
+
+/**
+ * Decodes the base64 keys and values of tendermint event attributes.
+ */
+export const decodeEvents = (events: ReadonlyArray<RawEvent> | null | undefined): BlockEvent[] => {
+  return (events ?? []).map((event) => ({
+    type: event.type,
+    attributes: (event.attributes ?? []).reduce((result, attr) => {
+      result[decodeBase64(attr.key)] = attr.value === null || typeof attr.value === "undefined" ? null : decodeBase64(attr.value);
+      return result;
+    }, {} as SimpleMap),
+  }));
+}
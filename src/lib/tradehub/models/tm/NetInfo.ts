@@ -0,0 +1,15 @@
+import { NodeInfo } from "./Common";
+
+export interface Peer {
+  node_info: NodeInfo
+  is_outbound: boolean
+  connection_status: unknown
+  remote_ip: string
+}
+
+export interface NetInfo {
+  listening: boolean
+  listeners: string[]
+  n_peers: string
+  peers: Peer[]
+}
@@ -0,0 +1,23 @@
+import { NodeInfo, PubKey } from "./Common";
+
+export interface SyncInfo {
+  latest_block_hash: string
+  latest_app_hash: string
+  latest_block_height: string
+  latest_block_time: string
+  earliest_block_hash?: string
+  earliest_app_hash?: string
+  earliest_block_height?: string
+  earliest_block_time?: string
+  catching_up: boolean
+}
+
+export interface Status {
+  node_info: NodeInfo
+  sync_info: SyncInfo
+  validator_info: {
+    address: string
+    pub_key: PubKey
+    voting_power: string
+  }
+}
@@ -0,0 +1,38 @@
+import { BlockEvent } from "../rest";
+import { Block } from "./Block";
+import { TxResult } from "./Tx";
+
+export interface NewBlockEvent {
+  block: Block
+  result_begin_block: {
+    events: BlockEvent[]
+  }
+  result_end_block: {
+    events: BlockEvent[]
+    validator_updates?: unknown[] | null
+    consensus_param_updates?: unknown
+  }
+}
+
+export interface TxEvent {
+  TxResult: {
+    height: string
+    index: number
+    // base64 encoded tx
+    tx: string
+    result: TxResult
+  }
+}
+
+export interface SubscriptionEvent<T = unknown> {
+  query: string
+  data: {
+    type: string
+    value: T
+  }
+
+  // event attributes keyed by composite key, e.g. tx.hash
+  events: {
+    [key: string]: string[]
+  }
+}
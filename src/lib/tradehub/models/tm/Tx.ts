@@ -0,0 +1,54 @@
+import { BlockEvent } from "../rest";
+
+export interface TxResult {
+  code: number
+  data: string | null
+  log: string
+  info: string
+  gas_wanted: string
+  gas_used: string
+  codespace: string
+
+  // decoded from base64 attributes
+  events: BlockEvent[]
+}
+
+export interface Tx {
+  hash: string
+  height: string
+  index: number
+  tx_result: TxResult
+
+  // base64 encoded tx
+  tx: string
+  proof?: unknown
+}
+
+export interface TxSearch {
+  txs: Tx[]
+  total_count: string
+}
+
+export interface UnconfirmedTxs {
+  n_txs: string
+  total: string
+  total_bytes: string
+
+  // base64 encoded txs
+  txs: string[] | null
+}
+
+export interface BroadcastTxResult {
+  code: number
+  data: string
+  log: string
+  codespace: string
+  hash: string
+}
+
+export interface BroadcastTxCommitResult {
+  check_tx: TxResult
+  deliver_tx: TxResult
+  hash: string
+  height: string
+}
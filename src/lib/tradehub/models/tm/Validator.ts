@@ -0,0 +1,15 @@
+import { PubKey } from "./Common";
+
+export interface Validator {
+  address: string
+  pub_key: PubKey
+  voting_power: string
+  proposer_priority: string
+}
+
+export interface Validators {
+  block_height: string
+  validators: Validator[]
+  count?: string
+  total?: string
+}
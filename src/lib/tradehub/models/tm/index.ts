@@ -0,0 +1,9 @@
+export * from './ABCIQuery'
+export * from './Block'
+export * from './Common'
+export * from './Event'
+export * from './NetInfo'
+export * from './Status'
+export * from './Subscription'
+export * from './Tx'
+export * from './Validator'
@@ -0,0 +1,28 @@
+import BigNumber from "bignumber.js";
+import { ModelDecoder } from "../parsed";
+
+export interface BookUpdateJSON {
+  market: string
+  side: "buy" | "sell"
+  price: string
+  quantity: string
+  type: "new" | "update" | "delete"
+}
+
+/**
+ * Total quantity of a price level, quantity is zero if the type
+ * is delete.
+ */
+export interface BookUpdate extends Omit<BookUpdateJSON, "price" | "quantity"> {
+  price: BigNumber
+  quantity: BigNumber
+}
+
+export const decodeBookUpdate = (input: BookUpdateJSON): BookUpdate => {
+  const decoder = new ModelDecoder("BookUpdate", input, ["side", "price"]);
+  return {
+    ...input,
+    price: decoder.bn("price"),
+    quantity: input.type === "delete" ? new BigNumber(0) : decoder.optionalBN("quantity") ?? new BigNumber(0),
+  };
+}
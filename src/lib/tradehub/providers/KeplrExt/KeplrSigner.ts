@@ -0,0 +1,61 @@
+import { Keplr } from "@keplr-wallet/types";
+import { NetworkConfigProvider, sortObject, StdSignDoc } from "@lib/tradehub/utils";
+import { TradeHubSigner } from "@lib/tradehub/wallet/TradeHubSigner";
+import { KeplrAccount } from "./KeplrExt";
+
+type KeplrStdSignDoc = Parameters<Keplr["signAmino"]>[2]
+
+/**
+ * Signs txs with the Keplr browser extension through its amino
+ * signing API.
+ *
+ * @example
+ * const signer = await KeplrSigner.connect(window.keplr, sdk);
+ * const wallet = TradeHubWallet.withSigner(signer, signer.publicKeyBase64, opts);
+ */
+export class KeplrSigner implements TradeHubSigner {
+  type = TradeHubSigner.Type.BrowserInjected
+
+  constructor(
+    readonly keplr: Keplr,
+    readonly chainId: string,
+    readonly bech32Address: string,
+    readonly publicKeyBase64: string,
+  ) { }
+
+  /**
+   * Suggests the TradeHub chain to Keplr, requests access to it and
+   * loads the public key of the selected Keplr account.
+   */
+  static async connect(keplr: Keplr | undefined, configProvider: NetworkConfigProvider): Promise<KeplrSigner> {
+    if (!keplr)
+      throw new Error("Keplr extension not found");
+
+    const chainInfo = KeplrAccount.getChainInfo(configProvider);
+    await keplr.experimentalSuggestChain(chainInfo);
+    await keplr.enable(chainInfo.chainId);
+
+    const key = await keplr.getKey(chainInfo.chainId);
+    const publicKeyBase64 = Buffer.from(key.pubKey).toString("base64");
+
+    return new KeplrSigner(keplr, chainInfo.chainId, key.bech32Address, publicKeyBase64);
+  }
+
+  async sign(doc: StdSignDoc): Promise<Buffer> {
+    if (doc.chain_id !== this.chainId)
+      throw new Error(`sign doc chain ID ${doc.chain_id} does not match Keplr chain ID ${this.chainId}`);
+
+    const signDoc: KeplrStdSignDoc = JSON.parse(JSON.stringify(doc));
+    const response = await this.keplr.signAmino(this.chainId, this.bech32Address, signDoc, {
+      // fee and memo are already set by TradeHubWallet
+      preferNoSetFee: true,
+      preferNoSetMemo: true,
+    });
+
+    // signature would not match the doc broadcasted by TradeHubWallet
+    if (JSON.stringify(sortObject(response.signed)) !== doc.sortedJson())
+      throw new Error("sign doc was modified by Keplr");
+
+    return Buffer.from(response.signature.signature, "base64");
+  }
+}
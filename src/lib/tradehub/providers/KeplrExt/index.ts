@@ -1 +1,2 @@
 export * from "./KeplrExt";
+export * from "./KeplrSigner";
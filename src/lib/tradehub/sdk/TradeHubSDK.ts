@@ -1,14 +1,17 @@
 import BigNumber from "bignumber.js";
 import { APIClient, TMClient } from "../api";
+import { APIClientOpts } from "../api/APIClient";
 import * as _RestTypes from "../api/spec";
 import { ETHClient, NEOClient, ZILClient } from "../clients";
 import TokenClient from "../clients/TokenClient";
 import { RestModels as _RestModels, RPCParams as _RPCParams } from "../models";
 import { Blockchain, Network, Network as _Network, NetworkConfig, NetworkConfigProvider, NetworkConfigs, SimpleMap } from "../utils";
+import { Keplr } from "@keplr-wallet/types";
+import { KeplrSigner } from "../providers";
 import { TradeHubSigner, TradeHubWallet, TradeHubWalletGenericOpts } from "../wallet";
-import { WSConnector, WSSubscriber } from "../websocket";
+import { OrderBookReplica, WSChannelSubscriber, WSConnector, WSUnsubscribe } from "../websocket";
 import { WSChannel } from "../websocket/types";
-import { ModAccount, ModAdmin, ModBroker, ModCDP, ModCoin, ModGovernance, ModLeverage, ModLiquidityPool, ModMarket, ModOracle, ModOrder, ModPosition } from "./modules";
+import { ModAccount, ModAdmin, ModBroker, ModCDP, ModCoin, ModGovernance, ModLeverage, ModLiquidityPool, ModMarket, ModOracle, ModOrder, ModPosition, ModValidation } from "./modules";
 import { SDKProvider } from "./modules/module";
 import ModStaking from "./modules/staking";
 import CosmosLedger from '@lunie/cosmos-ledger'
@@ -17,6 +20,7 @@ export * as RestTypes from "../api/spec";
 export * from "../models";
 export * as ExtClients from "../clients";
 export * as TradeHubTx from "../utils/tx";
+export { MsgValidationError, ValidationError, ValidationErrorCode, ValidationResult } from "./modules/validation";
 
 /** @deprecated use RestModels */
 export { RestModels as RestResponse } from "../models";
@@ -27,7 +31,16 @@ export interface TradeHubSDKInitOpts {
   ws?: WSConnector
   txFees?: SimpleMap<BigNumber>
 
+  // validate order, withdrawal and liquidity msgs against market
+  // and token rules before broadcast, defaults to false
+  validateMsgs?: boolean
+
   config?: Partial<NetworkConfig>
+
+  // retry, middleware, cache, timeout and rate limit options of the
+  // REST API client, also applied to the tendermint client and the
+  // connected wallet's API client
+  apiOpts?: APIClientOpts
 }
 
 const DEFAULT_OPTS: TradeHubSDKInitOpts = {
@@ -42,7 +55,9 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
   api: APIClient
   tm: TMClient
   debugMode: boolean
+  validateMsgs: boolean
   configOverride: Partial<NetworkConfig>
+  apiOpts: APIClientOpts
   initialized: boolean
 
   networkConfig: NetworkConfig
@@ -70,6 +85,7 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
   cdp: ModCDP
   oracle: ModOracle
   staking: ModStaking
+  validation: ModValidation
 
   // initialized by calling TradeHubSDK.connect(TradeHubWallet)
   wallet?: TradeHubWallet
@@ -77,10 +93,12 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
 
   constructor(opts: TradeHubSDKInitOpts = DEFAULT_OPTS) {
     this.debugMode = opts.debugMode ?? false
+    this.validateMsgs = opts.validateMsgs ?? false
 
     this.network = opts.network ?? DEFAULT_OPTS.network;
     this.configOverride = opts.config ?? {};
     this.txFees = opts.txFees;
+    this.apiOpts = opts.apiOpts ?? {};
     this.initialized = false;
 
     this.networkConfig = {
@@ -88,10 +106,12 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
       ...this.configOverride,
     };
 
-    this.api = new APIClient(this.networkConfig.RestURL, {
+    this.api = new APIClient([this.networkConfig.RestURL, ...this.networkConfig.FallbackRestURLs ?? []], {
+      ...this.apiOpts,
       debugMode: this.debugMode,
     });
     this.tm = new TMClient(this.networkConfig.TendermintURL, {
+      ...this.apiOpts,
       debugMode: this.debugMode,
     });
 
@@ -121,7 +141,7 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
       blockchain: Blockchain.Zilliqa,
     })
 
-    this.token = TokenClient.instance(this.api);
+    this.token = TokenClient.instance(this.api, this.networkConfig.CoinGeckoURL);
 
     // initialize modules
     this.order = new ModOrder(this);
@@ -137,6 +157,7 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
     this.cdp = new ModCDP(this);
     this.oracle = new ModOracle(this);
     this.staking = new ModStaking(this);
+    this.validation = new ModValidation(this);
   }
 
   protected async startWS() {
@@ -158,6 +179,8 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
       network: this.network,
       debugMode: this.debugMode,
       txFees: this.txFees,
+      validateMsgs: this.validateMsgs,
+      apiOpts: this.apiOpts,
       config: this.configOverride,
     }
   }
@@ -171,6 +194,7 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
   public async reloadTxnFees() {
     this.log("reloadTxnFees…");
     this.txFees = await this.api.getTxnFees();
+    this.wallet?.feeEstimator.updateTxFees(this.txFees);
   }
 
   public static parseNetwork(network: string, defaultNetwork: Network | null = DEFAULT_OPTS.network) {
@@ -204,6 +228,7 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
 
     if (wallet) {
       this.wallet = wallet;
+      wallet.feeEstimator.updateTxFees(this.txFees);
 
       this.log("reloading wallet account");
       await wallet.init();
@@ -238,6 +263,7 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
     opts?: TradeHubWalletGenericOpts,
   ) {
     const wallet = TradeHubWallet.withPrivateKey(privateKey, {
+      apiOpts: this.apiOpts,
       ...opts,
       debugMode: this.debugMode,
       network: this.network,
@@ -251,6 +277,22 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
     opts?: TradeHubWalletGenericOpts,
   ) {
     const wallet = TradeHubWallet.withMnemonic(mnemonic, {
+      apiOpts: this.apiOpts,
+      ...opts,
+      debugMode: this.debugMode,
+      network: this.network,
+      config: this.configOverride,
+    })
+    return this.connect(wallet)
+  }
+
+  public async connectWithKeystore(
+    json: string,
+    password: string,
+    opts?: TradeHubWalletGenericOpts,
+  ) {
+    const wallet = await TradeHubWallet.withKeystore(json, password, {
+      apiOpts: this.apiOpts,
       ...opts,
       debugMode: this.debugMode,
       network: this.network,
@@ -265,6 +307,7 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
     opts?: TradeHubWalletGenericOpts,
   ) {
     const wallet = TradeHubWallet.withSigner(signer, publicKeyBase64, {
+      apiOpts: this.apiOpts,
       ...opts,
       debugMode: this.debugMode,
       network: this.network,
@@ -281,6 +324,29 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
     const publicKeyBase64 = publicKeyBuffer.toString("base64");
 
     const wallet = TradeHubWallet.withLedger(ledger, publicKeyBase64, {
+      apiOpts: this.apiOpts,
+      ...opts,
+      debugMode: this.debugMode,
+      network: this.network,
+      config: this.configOverride,
+    })
+    return this.connect(wallet)
+  }
+
+  /**
+   * Connects the account selected in the Keplr browser extension,
+   * suggesting the TradeHub chain to Keplr if it is not added yet.
+   *
+   * @param keplr Keplr instance, defaults to window.keplr
+   */
+  public async connectWithKeplr(
+    keplr: Keplr | undefined = typeof window !== "undefined" ? window.keplr : undefined,
+    opts?: TradeHubWalletGenericOpts,
+  ) {
+    const signer = await KeplrSigner.connect(keplr, this);
+
+    const wallet = TradeHubWallet.withSigner(signer, signer.publicKeyBase64, {
+      apiOpts: this.apiOpts,
       ...opts,
       debugMode: this.debugMode,
       network: this.network,
@@ -293,18 +359,31 @@ class TradeHubSDK implements SDKProvider, NetworkConfigProvider {
     return this.checkWallet();
   }
 
-  public async subscribeWallet(handler: WSSubscriber) {
+  public async subscribeWallet(handler: WSChannelSubscriber<WSChannel.balances>): Promise<WSUnsubscribe> {
     if (!this.wallet)
       throw new Error("SDK not connected");
     if (!this.ws?.connected)
       await this.startWS();
 
-    await this.ws.subscribe({
+    return this.ws.subscribe({
       address: this.wallet.bech32Address,
       channel: WSChannel.balances,
     }, handler);
   }
 
+  /**
+   * Starts a local order book of the market, call OrderBookReplica.stop
+   * to unsubscribe.
+   */
+  public async createOrderBookReplica(market: string): Promise<OrderBookReplica> {
+    if (!this.ws?.connected)
+      await this.startWS();
+
+    const replica = new OrderBookReplica({ market, ws: this.ws, api: this.api });
+    await replica.start();
+    return replica;
+  }
+
   private checkWallet(): TradeHubWallet {
     if (!this.wallet) {
       throw new Error("wallet not connected");
@@ -1,8 +1,77 @@
-import { RPCParams } from "@lib/tradehub/models";
-import { TxTypes } from "@lib/tradehub/utils";
+import { ParsedModels, RPCParams } from "@lib/tradehub/models";
+import { BN_ZERO, calculateVaultHealth, TxTypes, VaultHealth, VaultPrices } from "@lib/tradehub/utils";
 import BaseModule from "./module";
 
+export interface VaultHealthOpts {
+  vault_type_id: string
+
+  // defaults to the connected wallet address
+  address?: string
+
+  prices: VaultPrices
+}
+
 class ModCDP extends BaseModule {
+  public async getVaultTypes(): Promise<ParsedModels.VaultType[]> {
+    return await this.sdkProvider.api.parsed.getVaultTypes();
+  }
+
+  public async getVaultType(vaultTypeId: string): Promise<ParsedModels.VaultType> {
+    const vaultTypes = await this.getVaultTypes();
+    const vaultType = vaultTypes.find((item) => item.id === vaultTypeId);
+    if (!vaultType)
+      throw new Error(`vault type not found: ${vaultTypeId}`);
+
+    return vaultType;
+  }
+
+  /**
+   * @param address defaults to the connected wallet address
+   */
+  public async getVaults(address?: string): Promise<ParsedModels.Vault[]> {
+    return await this.sdkProvider.api.parsed.getVaults({
+      address: address ?? this.getWallet().bech32Address,
+    });
+  }
+
+  /**
+   * Returns undefined if the address has no vault of the vault type.
+   */
+  public async getVault(vaultTypeId: string, address?: string): Promise<ParsedModels.Vault | undefined> {
+    const vaults = await this.getVaults(address);
+    return vaults.find((vault) => vault.vault_type_id === vaultTypeId);
+  }
+
+  /**
+   * Calculates the collateral ratio and liquidation price of a vault
+   * from prices of whole tokens, see calculateVaultHealth.
+   *
+   * @example
+   * const health = await sdk.cdp.getVaultHealth({
+   *   vault_type_id: "1",
+   *   prices: { collateral: new BigNumber(0.05), debt: new BigNumber(1) },
+   * })
+   * if (health.collateralRatio.lt(health.minCollateralRatio.times(1.2)))
+   *   await sdk.cdp.addCollateral({ vault_type_id: "1", amount: "100000000" })
+   */
+  public async getVaultHealth(opts: VaultHealthOpts): Promise<VaultHealth> {
+    const api = this.sdkProvider.api;
+    const [vaultType, vault] = await Promise.all([
+      this.getVaultType(opts.vault_type_id),
+      this.getVault(opts.vault_type_id, opts.address),
+    ]);
+    const [collateralToken, debtToken] = await Promise.all([
+      api.getToken({ token: vaultType.collateral_denom }),
+      api.getToken({ token: vaultType.debt_denom }),
+    ]);
+
+    const amounts = {
+      collateral: (vault?.collateral ?? BN_ZERO).shiftedBy(-collateralToken.decimals),
+      debt: (vault?.debt ?? BN_ZERO).shiftedBy(-debtToken.decimals),
+    };
+    return calculateVaultHealth(amounts, vaultType.collateralization_ratio, opts.prices);
+  }
+
   public async addCollateral(params: RPCParams.AddCollateral) {
     const wallet = this.getWallet();
 
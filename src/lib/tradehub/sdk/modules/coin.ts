@@ -9,6 +9,8 @@ class ModCoin extends BaseModule {
     if (!params.originator)
       params.originator = wallet.bech32Address;
 
+    await this.validateMsg((validation) => validation.validateCreateWithdrawal(params));
+
     return await wallet.sendTx({
       type: TxTypes.Coin.CREATE_WITHDRAWAL_TYPE,
       value: params,
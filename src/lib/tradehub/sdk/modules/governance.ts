@@ -1,10 +1,10 @@
 import { RPCParams } from "@lib/tradehub/models";
 import { TokenAmount } from "@lib/tradehub/models/rest";
-import { TxTypes } from "@lib/tradehub/utils";
+import { DecodedTxResponse, SubmitProposalResult, TxTypes } from "@lib/tradehub/utils";
 import BaseModule from "./module";
 
 class ModGovernance extends BaseModule {
-  public async submitProposal<T = RPCParams.Proposal>(type: RPCParams.Proposal.Type | string, params: T, deposit: TokenAmount[] = []) {
+  public async submitProposal<T = RPCParams.Proposal>(type: RPCParams.Proposal.Type | string, params: T, deposit: TokenAmount[] = []): Promise<DecodedTxResponse<SubmitProposalResult>> {
     const value: RPCParams.SubmitProposalMsg<T> = {
       content: {
         type,
@@ -13,10 +13,10 @@ class ModGovernance extends BaseModule {
       initial_deposit: deposit,
       proposer: this.getWallet().bech32Address,
     };
-    return await this.sendTx(
-      TxTypes.Governance.SUBMIT_PROPOSAL,
+    return await this.sendDecodedTxs<SubmitProposalResult>([{
+      type: TxTypes.Governance.SUBMIT_PROPOSAL,
       value,
-    );
+    }]);
   }
 
   public async depositProposal(id: string, amount: TokenAmount[]) {
@@ -1,7 +1,7 @@
 export { default as ModAccount } from "./account";
 export { default as ModAdmin } from "./admin";
 export { default as ModBroker } from "./broker";
-export { default as ModCDP } from "./cdp";
+export { default as ModCDP, VaultHealthOpts } from "./cdp";
 export { default as ModCoin } from "./coin";
 export { default as ModGovernance } from "./governance";
 export { default as ModLeverage } from "./leverage";
@@ -11,3 +11,4 @@ export { default as ModOracle } from "./oracle";
 export { default as ModOrder } from "./order";
 export { default as ModPosition } from "./position";
 export { default as ModStaking } from "./staking";
+export { default as ModValidation } from "./validation";
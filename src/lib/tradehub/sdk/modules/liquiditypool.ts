@@ -1,32 +1,32 @@
 import { RestModels, RPCParams } from "@lib/tradehub/models";
-import { TxTypes } from "@lib/tradehub/utils";
+import { CreatePoolResult, DecodedTxResponse, TxTypes } from "@lib/tradehub/utils";
 import BigNumber from "bignumber.js";
 import dayjs from "dayjs";
 import BaseModule from "./module";
 
 class ModLiquidityPool extends BaseModule {
-  public async create(params: RPCParams.CreatePool) {
+  public async create(params: RPCParams.CreatePool): Promise<DecodedTxResponse<CreatePoolResult>> {
     const wallet = this.getWallet();
 
     if (!params.originator)
       params.originator = wallet.bech32Address;
 
-    return await wallet.sendTx({
+    return await this.sendDecodedTxs<CreatePoolResult>([{
       type: TxTypes.LiquidityPool.CREATE_POOL,
       value: params,
-    });
+    }]);
   }
 
-  public async createWithLiquidity(params: RPCParams.CreatePoolWithLiquidity) {
+  public async createWithLiquidity(params: RPCParams.CreatePoolWithLiquidity): Promise<DecodedTxResponse<CreatePoolResult>> {
     const wallet = this.getWallet();
 
     if (!params.originator)
       params.originator = wallet.bech32Address;
 
-    return await wallet.sendTx({
+    return await this.sendDecodedTxs<CreatePoolResult>([{
       type: TxTypes.LiquidityPool.CREATE_POOL_WITH_LIQUIDITY,
       value: params,
-    });
+    }]);
   }
 
   public async addLiquidity(params: RPCParams.AddLiquidity) {
@@ -35,6 +35,8 @@ class ModLiquidityPool extends BaseModule {
     if (!params.originator)
       params.originator = wallet.bech32Address;
 
+    await this.validateMsg((validation) => validation.validateAddLiquidity(params));
+
     return await wallet.sendTx({
       type: TxTypes.LiquidityPool.ADD_LIQUIDITY,
       value: params,
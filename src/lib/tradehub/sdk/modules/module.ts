@@ -1,11 +1,16 @@
 import { APIClient } from "@lib/tradehub/api";
-import { TxMsgValue } from "@lib/tradehub/utils";
+import { decodeTxResponse, DecodedTxResponse, TxMsg, TxMsgResult, TxMsgValue } from "@lib/tradehub/utils";
 import { TradeHubWallet } from "@lib/tradehub/wallet";
+import ModValidation, { ValidationResult } from "./validation";
 
 export interface SDKProvider {
   api: APIClient;
   log: (...args: any[]) => void;
   getConnectedWallet: () => TradeHubWallet;
+
+  // msgs are validated before broadcast if enabled
+  validateMsgs?: boolean;
+  validation?: ModValidation;
 }
 
 class BaseModule {
@@ -21,6 +26,31 @@ class BaseModule {
     this.sdkProvider.log(`[${this.constructor.name}]`, ...args);
   }
 
+  /**
+   * Runs the validator if msg validation is enabled on the provider,
+   * throws MsgValidationError if the msg is invalid.
+   */
+  protected async validateMsg(validator: (validation: ModValidation) => Promise<ValidationResult>): Promise<void> {
+    const validation = this.sdkProvider.validation;
+    if (!this.sdkProvider.validateMsgs || !validation)
+      return;
+
+    validation.assertValid(await validator(validation));
+  }
+
+  /**
+   * Broadcasts msgs in a single tx and returns the tx response with
+   * the tx logs decoded into typed results for each msg.
+   */
+  protected async sendDecodedTxs<T extends TxMsgResult = TxMsgResult>(msgs: TxMsg[]): Promise<DecodedTxResponse<T>> {
+    const wallet = this.getWallet();
+
+    const response = msgs.length === 1
+      ? await wallet.sendTx(msgs[0])
+      : await wallet.sendTxs(msgs);
+    return decodeTxResponse<T>(response, msgs);
+  }
+
   protected async sendTx(msgType: string, params: TxMsgValue): Promise<unknown> {
     const wallet = this.getWallet();
 
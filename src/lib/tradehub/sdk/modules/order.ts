@@ -1,9 +1,10 @@
 import { RPCParams } from "@lib/tradehub/models";
-import { TxTypes } from "@lib/tradehub/utils";
+import { CreateOrderResult, DecodedTxResponse, TxTypes } from "@lib/tradehub/utils";
 import BaseModule from "./module";
+import { ValidationError } from "./validation";
 
 class ModOrder extends BaseModule {
-  public async create(params: RPCParams.CreateOrder) {
+  public async create(params: RPCParams.CreateOrder): Promise<DecodedTxResponse<CreateOrderResult>> {
     const wallet = this.getWallet();
 
     if (!params.originator)
@@ -13,13 +14,15 @@ class ModOrder extends BaseModule {
     if (params.is_reduce_only === undefined)
       params.is_reduce_only = false
 
-    return await wallet.sendTx({
+    await this.validateMsg((validation) => validation.validateCreateOrder(params));
+
+    return await this.sendDecodedTxs<CreateOrderResult>([{
       type: TxTypes.Order.CREATE,
       value: params,
-    });
+    }]);
   }
 
-  public async createOrders(params: RPCParams.CreateOrder[]) {
+  public async createOrders(params: RPCParams.CreateOrder[]): Promise<DecodedTxResponse<CreateOrderResult>> {
     const wallet = this.getWallet();
 
     const msgs = params.map(param => {
@@ -35,8 +38,19 @@ class ModOrder extends BaseModule {
         value: param,
       };
     })
-    
-    return await wallet.sendTxs(msgs);
+
+    // errors of each order are reported with the index of its params
+    await this.validateMsg(async (validation) => {
+      const results = await Promise.all(params.map((param) => validation.validateCreateOrder(param)));
+      const errors: ValidationError[] = [];
+      results.forEach((result, index) => {
+        for (const error of result.errors)
+          errors.push({ ...error, field: `params[${index}].${error.field}` });
+      });
+      return { valid: errors.length === 0, errors };
+    });
+
+    return await this.sendDecodedTxs<CreateOrderResult>(msgs);
   }
 
   public async cancel(params: RPCParams.CancelOrder) {
@@ -73,6 +87,8 @@ class ModOrder extends BaseModule {
     if (!params.originator)
       params.originator = wallet.bech32Address;
 
+    await this.validateMsg((validation) => validation.validateEditOrder(params));
+
     return await wallet.sendTx({
       type: TxTypes.Order.EDIT,
       value: params,
@@ -0,0 +1,278 @@
+import { RequestError } from "@lib/tradehub/api";
+import { RestModels, RPCParams } from "@lib/tradehub/models";
+import BigNumber from "bignumber.js";
+import BaseModule from "./module";
+
+export enum ValidationErrorCode {
+  NotFound = "not_found",
+  Inactive = "inactive",
+  InvalidNumber = "invalid_number",
+  NonPositive = "non_positive",
+  BelowMinimum = "below_minimum",
+  InvalidLotSize = "invalid_lot_size",
+  InvalidTickSize = "invalid_tick_size",
+  InvalidDecimals = "invalid_decimals",
+  InsufficientBalance = "insufficient_balance",
+}
+
+export interface ValidationError {
+  // name of the msg param that failed validation
+  field: string
+  code: ValidationErrorCode
+  message: string
+}
+
+export interface ValidationResult {
+  valid: boolean
+  errors: ValidationError[]
+}
+
+export class MsgValidationError extends Error {
+  constructor(
+    public readonly errors: ValidationError[],
+  ) {
+    super(`msg validation failed: ${errors.map((error) => `${error.field}: ${error.message}`).join(", ")}`);
+  }
+}
+
+/**
+ * Checks msg params against market and token rules before broadcast,
+ * so that invalid msgs are rejected without spending tx fees.
+ *
+ * Quantities and amounts are expected in human readable units, as
+ * accepted by the msgs themselves.
+ *
+ * Markets, orders and tokens that the API responds to with 404 fail
+ * with ValidationErrorCode.NotFound, other request errors are thrown.
+ */
+class ModValidation extends BaseModule {
+  public async validateCreateOrder(params: RPCParams.CreateOrder): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+
+    const market = await this.queryMarket(params.market);
+    if (!market) {
+      errors.push(validationError("market", ValidationErrorCode.NotFound, `market not found: ${params.market}`));
+      return validationResult(errors);
+    }
+
+    errors.push(...checkMarketActive(market));
+    errors.push(...checkQuantity("quantity", params.quantity, market));
+
+    // market orders do not have to be placed on a price tick
+    if (params.price !== undefined && params.type !== "market")
+      errors.push(...checkPrice("price", params.price, market));
+    if (params.stop_price !== undefined)
+      errors.push(...checkPrice("stop_price", params.stop_price, market));
+
+    return validationResult(errors);
+  }
+
+  public async validateEditOrder(params: RPCParams.EditOrder): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+
+    const order = await this.queryOrder(params.id);
+    if (!order) {
+      errors.push(validationError("id", ValidationErrorCode.NotFound, `order not found: ${params.id}`));
+      return validationResult(errors);
+    }
+
+    const market = await this.queryMarket(order.market);
+    if (!market) {
+      errors.push(validationError("id", ValidationErrorCode.NotFound, `market not found: ${order.market}`));
+      return validationResult(errors);
+    }
+
+    errors.push(...checkMarketActive(market));
+    if (params.quantity !== undefined)
+      errors.push(...checkQuantity("quantity", params.quantity, market));
+    if (params.price !== undefined && order.order_type !== "market")
+      errors.push(...checkPrice("price", params.price, market));
+    if (params.stop_price !== undefined)
+      errors.push(...checkPrice("stop_price", params.stop_price, market));
+
+    return validationResult(errors);
+  }
+
+  public async validateCreateWithdrawal(params: RPCParams.CreateWithdrawal): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+
+    const token = await this.queryToken(params.denom);
+    if (!token) {
+      errors.push(validationError("denom", ValidationErrorCode.NotFound, `token not found: ${params.denom}`));
+      return validationResult(errors);
+    }
+
+    const amountErrors = checkAmount("amount", params.amount, token);
+    const feeErrors = checkAmount("fee_amount", params.fee_amount, token, true);
+    errors.push(...amountErrors, ...feeErrors);
+
+    if (!amountErrors.length && !feeErrors.length) {
+      const balances = await this.queryBalances(params.originator);
+      const required = new BigNumber(params.amount).plus(params.fee_amount);
+      errors.push(...checkBalance("amount", required, token.denom, balances));
+    }
+
+    return validationResult(errors);
+  }
+
+  public async validateAddLiquidity(params: RPCParams.AddLiquidity): Promise<ValidationResult> {
+    const errors: ValidationError[] = [];
+
+    const pools = await this.sdkProvider.api.getLiquidityPools();
+    const pool = pools.find((pool) => pool.pool_id.toString() === params.pool_id);
+    if (!pool) {
+      errors.push(validationError("pool_id", ValidationErrorCode.NotFound, `liquidity pool not found: ${params.pool_id}`));
+      return validationResult(errors);
+    }
+
+    const tokenA = await this.queryToken(pool.denom_a);
+    const tokenB = await this.queryToken(pool.denom_b);
+    if (!tokenA)
+      errors.push(validationError("amount_a", ValidationErrorCode.NotFound, `token not found: ${pool.denom_a}`));
+    if (!tokenB)
+      errors.push(validationError("amount_b", ValidationErrorCode.NotFound, `token not found: ${pool.denom_b}`));
+    if (!tokenA || !tokenB)
+      return validationResult(errors);
+
+    const amountAErrors = checkAmount("amount_a", params.amount_a, tokenA, true);
+    const amountBErrors = checkAmount("amount_b", params.amount_b, tokenB, true);
+    errors.push(...amountAErrors, ...amountBErrors);
+
+    const minShares = new BigNumber(params.min_shares);
+    if (!minShares.isFinite() || minShares.isNegative())
+      errors.push(validationError("min_shares", ValidationErrorCode.InvalidNumber, `invalid min shares: ${params.min_shares}`));
+
+    if (!amountAErrors.length && !amountBErrors.length) {
+      const balances = await this.queryBalances(params.originator);
+      errors.push(...checkBalance("amount_a", new BigNumber(params.amount_a), tokenA.denom, balances));
+      errors.push(...checkBalance("amount_b", new BigNumber(params.amount_b), tokenB.denom, balances));
+    }
+
+    return validationResult(errors);
+  }
+
+  /**
+   * Throws MsgValidationError if the result contains any errors.
+   */
+  public assertValid(result: ValidationResult): void {
+    if (!result.valid)
+      throw new MsgValidationError(result.errors);
+  }
+
+  private async queryMarket(market: string): Promise<RestModels.Market | null> {
+    try {
+      const result = await this.sdkProvider.api.getMarket({ market });
+      return result?.name ? result : null;
+    } catch (error) {
+      this.log("query market failed", market, error);
+      if (isNotFoundError(error))
+        return null;
+      throw error;
+    }
+  }
+
+  private async queryOrder(orderId: string): Promise<RestModels.Order | null> {
+    try {
+      const result = await this.sdkProvider.api.getOrder({ order_id: orderId });
+      return result?.order_id ? result : null;
+    } catch (error) {
+      this.log("query order failed", orderId, error);
+      if (isNotFoundError(error))
+        return null;
+      throw error;
+    }
+  }
+
+  private async queryToken(denom: string): Promise<RestModels.Token | null> {
+    try {
+      const result = await this.sdkProvider.api.getToken({ token: denom });
+      return result?.denom ? result : null;
+    } catch (error) {
+      this.log("query token failed", denom, error);
+      if (isNotFoundError(error))
+        return null;
+      throw error;
+    }
+  }
+
+  private async queryBalances(originator?: string): Promise<RestModels.Balances> {
+    const account = originator ?? this.getWallet().bech32Address;
+    return await this.sdkProvider.api.getWalletBalance({ account });
+  }
+}
+
+// only missing records fail validation, network and server
+// errors are thrown to the caller
+const isNotFoundError = (error: unknown): boolean => {
+  return error instanceof RequestError && error.result.status === 404;
+}
+
+const validationError = (field: string, code: ValidationErrorCode, message: string): ValidationError => {
+  return { field, code, message };
+}
+
+const validationResult = (errors: ValidationError[]): ValidationResult => {
+  return { valid: errors.length === 0, errors };
+}
+
+const isMultipleOf = (value: BigNumber, step: BigNumber): boolean => {
+  if (!step.isFinite() || step.isZero())
+    return true;
+  return value.modulo(step).isZero();
+}
+
+const checkMarketActive = (market: RestModels.Market): ValidationError[] => {
+  if (market.is_active)
+    return [];
+  return [validationError("market", ValidationErrorCode.Inactive, `market is not active: ${market.name}`)];
+}
+
+const checkQuantity = (field: string, input: string, market: RestModels.Market): ValidationError[] => {
+  const quantity = new BigNumber(input);
+  if (!quantity.isFinite())
+    return [validationError(field, ValidationErrorCode.InvalidNumber, `invalid quantity: ${input}`)];
+  if (!quantity.isPositive() || quantity.isZero())
+    return [validationError(field, ValidationErrorCode.NonPositive, `quantity must be positive: ${input}`)];
+
+  const errors: ValidationError[] = [];
+  const minQuantity = new BigNumber(market.min_quantity);
+  if (quantity.lt(minQuantity))
+    errors.push(validationError(field, ValidationErrorCode.BelowMinimum, `quantity ${input} is below min quantity ${market.min_quantity}`));
+  if (!isMultipleOf(quantity, new BigNumber(market.lot_size)))
+    errors.push(validationError(field, ValidationErrorCode.InvalidLotSize, `quantity ${input} is not a multiple of lot size ${market.lot_size}`));
+
+  return errors;
+}
+
+const checkPrice = (field: string, input: string, market: RestModels.Market): ValidationError[] => {
+  const price = new BigNumber(input);
+  if (!price.isFinite())
+    return [validationError(field, ValidationErrorCode.InvalidNumber, `invalid price: ${input}`)];
+  if (!price.isPositive() || price.isZero())
+    return [validationError(field, ValidationErrorCode.NonPositive, `price must be positive: ${input}`)];
+  if (!isMultipleOf(price, new BigNumber(market.tick_size)))
+    return [validationError(field, ValidationErrorCode.InvalidTickSize, `price ${input} is not a multiple of tick size ${market.tick_size}`)];
+
+  return [];
+}
+
+const checkAmount = (field: string, input: string, token: RestModels.Token, allowZero: boolean = false): ValidationError[] => {
+  const amount = new BigNumber(input);
+  if (!amount.isFinite())
+    return [validationError(field, ValidationErrorCode.InvalidNumber, `invalid amount: ${input}`)];
+  if (amount.isNegative() || (!allowZero && amount.isZero()))
+    return [validationError(field, ValidationErrorCode.NonPositive, `amount must be positive: ${input}`)];
+  if (amount.decimalPlaces() > token.decimals)
+    return [validationError(field, ValidationErrorCode.InvalidDecimals, `amount ${input} exceeds ${token.decimals} decimals of ${token.denom}`)];
+
+  return [];
+}
+
+const checkBalance = (field: string, required: BigNumber, denom: string, balances: RestModels.Balances): ValidationError[] => {
+  const available = new BigNumber(balances[denom]?.available ?? 0);
+  if (required.lte(available))
+    return [];
+  return [validationError(field, ValidationErrorCode.InsufficientBalance, `insufficient ${denom} balance: ${required.toString(10)} required, ${available.toString(10)} available`)];
+}
+
+export default ModValidation;
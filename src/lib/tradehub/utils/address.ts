@@ -9,6 +9,7 @@ import * as secp256k1 from 'secp256k1'
 import * as secp256r1 from 'secp256r1'
 import { sha256 } from 'sha.js'
 import * as wif from 'wif'
+import { MultisigThresholdPubKey, multisigPubKeyToScriptHash } from "./multisig"
 import { Network, NetworkConfigs } from "./network"
 import { Bech32Type } from './types'
 
@@ -168,6 +169,7 @@ type SWTHAddressType = AddressBuilder<SWTHAddressOptions> & {
   getBech32Prefix(net?: Network, type?: Bech32Type): string
   addrPrefix: { [index: string]: string }
   getAddressBytes(bech32Address: string, networkConfig?: Network): Uint8Array
+  multisigPublicKeyToAddress(pubKey: MultisigThresholdPubKey, opts?: SWTHAddressOptions): string
   keyDerivationPath(index?: number, change?: number): number[]
 }
 
@@ -201,6 +203,14 @@ export const SWTHAddress: SWTHAddressType = {
     return addressBech32
   },
 
+  multisigPublicKeyToAddress: (pubKey: MultisigThresholdPubKey, opts?: SWTHAddressOptions): string => {
+    const scriptHash = multisigPubKeyToScriptHash(pubKey)
+    const words = bech32.toWords(Buffer.from(scriptHash, "hex"))
+    const addressPrefix = SWTHAddress.getBech32Prefix(opts?.network, opts?.type)
+
+    return bech32.encode(addressPrefix, words)
+  },
+
   encodePublicKey: (): Buffer => {
     throw new Error('SWTH public keys do not compress')
   },
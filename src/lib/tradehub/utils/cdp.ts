@@ -0,0 +1,88 @@
+import BigNumber from "bignumber.js";
+import { BN_ZERO } from "./constants";
+
+export interface VaultAmounts {
+  // amounts in whole tokens, e.g. 1.5 for 1.5 SWTH
+  collateral: BigNumber
+  debt: BigNumber
+}
+
+export interface VaultPrices {
+  // value of one whole token of each denom, in a common quote such as USD
+  collateral: BigNumber
+  debt: BigNumber
+}
+
+export interface VaultHealth {
+  collateralValue: BigNumber
+  debtValue: BigNumber
+
+  // collateral value to debt value ratio, Infinity if the vault has no debt
+  collateralRatio: BigNumber
+
+  // ratio set on the vault type, the vault can be liquidated below it
+  minCollateralRatio: BigNumber
+
+  // collateral price at which collateralRatio falls to minCollateralRatio,
+  // zero if the vault has no debt
+  liquidationPrice: BigNumber
+
+  // debt that can be added, in whole debt tokens
+  availableDebt: BigNumber
+
+  // collateral that can be removed, in whole collateral tokens
+  withdrawableCollateral: BigNumber
+
+  isLiquidatable: boolean
+}
+
+export const calculateCollateralRatio = (collateralValue: BigNumber, debtValue: BigNumber): BigNumber => {
+  if (debtValue.isZero())
+    return new BigNumber(Infinity);
+  return collateralValue.div(debtValue);
+};
+
+/**
+ * Calculates the collateral ratio and liquidation threshold of a vault.
+ *
+ * To check a vault before adding debt or removing collateral, pass
+ * the amounts the vault would have after the change.
+ *
+ * @example
+ * const health = calculateVaultHealth(
+ *   { collateral: new BigNumber(1000), debt: new BigNumber(20) },
+ *   new BigNumber(1.5),
+ *   { collateral: new BigNumber(0.05), debt: new BigNumber(1) },
+ * )
+ * health.collateralRatio // 2.5
+ * health.liquidationPrice // 0.03
+ */
+export const calculateVaultHealth = (amounts: VaultAmounts, minCollateralRatio: BigNumber, prices: VaultPrices): VaultHealth => {
+  if (!minCollateralRatio.gt(0))
+    throw new Error(`invalid collateralization ratio ${minCollateralRatio.toString(10)}`);
+  if (!prices.collateral.gt(0) || !prices.debt.gt(0))
+    throw new Error("vault prices must be greater than 0");
+
+  const collateralValue = amounts.collateral.times(prices.collateral);
+  const debtValue = amounts.debt.times(prices.debt);
+  const collateralRatio = calculateCollateralRatio(collateralValue, debtValue);
+
+  // debt value supported by the collateral, and collateral value required by the debt
+  const maxDebtValue = collateralValue.div(minCollateralRatio);
+  const minCollateralValue = debtValue.times(minCollateralRatio);
+
+  let liquidationPrice = BN_ZERO;
+  if (debtValue.gt(0))
+    liquidationPrice = amounts.collateral.gt(0) ? minCollateralValue.div(amounts.collateral) : new BigNumber(Infinity);
+
+  return {
+    collateralValue,
+    debtValue,
+    collateralRatio,
+    minCollateralRatio,
+    liquidationPrice,
+    availableDebt: BigNumber.max(maxDebtValue.minus(debtValue), 0).div(prices.debt),
+    withdrawableCollateral: BigNumber.max(collateralValue.minus(minCollateralValue), 0).div(prices.collateral),
+    isLiquidatable: collateralRatio.lt(minCollateralRatio),
+  };
+};
@@ -0,0 +1,66 @@
+import BigNumber from "bignumber.js";
+import { BN_ZERO, DEFAULT_GAS, ONE_SWTH, TxTypes } from "./constants";
+import { DenomAmount, TxFee, TxMsg } from "./tx";
+import { SimpleMap } from "./types";
+
+export const DEFAULT_FEE_TYPE = "default_fee";
+
+/**
+ * Maps tx msg types to the msg fee keys returned by
+ * APIClient.getTxnFees.
+ */
+export const TxFeeTypes: SimpleMap = {
+  [TxTypes.Order.CREATE]: "create_order",
+  [TxTypes.Oracle.CREATE_ORACLE_TYPE]: "create_oracle_vote",
+  [TxTypes.LiquidityPool.CLAIM_POOL_REWARDS]: "claim_pool_rewards",
+  [TxTypes.LiquidityPool.CREATE_POOL]: "create_pool",
+  [TxTypes.LiquidityPool.STAKE_POOL_TOKEN]: "stake_pool_token",
+  [TxTypes.LiquidityPool.UNSTAKE_POOL_TOKEN]: "unstake_pool_token",
+};
+
+export interface FeeEstimateOpts {
+  // overrides the estimated fee amount
+  fee?: BigNumber
+
+  // overrides the default gas
+  gas?: BigNumber
+}
+
+/**
+ * Calculates tx fees from the msg fees configured on chain.
+ *
+ * Msg fees are looked up by the msg type, then by its fee key
+ * in TxFeeTypes, then the on chain default fee, and finally
+ * FeeEstimator.defaultFee if none of the above are available.
+ */
+export class FeeEstimator {
+  constructor(
+    public txFees: SimpleMap<BigNumber> = {},
+    public readonly defaultFee: BigNumber = ONE_SWTH,
+    public readonly defaultGas: BigNumber = DEFAULT_GAS,
+  ) { }
+
+  public updateTxFees(txFees: SimpleMap<BigNumber> = {}): FeeEstimator {
+    this.txFees = txFees;
+    return this;
+  }
+
+  public getMsgFee(msgType: string): BigNumber {
+    const fee = this.txFees[msgType]
+      ?? this.txFees[TxFeeTypes[msgType]]
+      ?? this.txFees[DEFAULT_FEE_TYPE];
+
+    return fee ?? this.defaultFee;
+  }
+
+  public estimateFeeAmount(msgs: TxMsg[]): BigNumber {
+    return msgs.reduce((total, msg) => total.plus(this.getMsgFee(msg.type)), BN_ZERO);
+  }
+
+  public estimate(msgs: TxMsg[], opts: FeeEstimateOpts = {}): TxFee {
+    const amount = opts.fee ?? this.estimateFeeAmount(msgs);
+    const gas = opts.gas ?? this.defaultGas;
+
+    return new TxFee([new DenomAmount(amount)], gas);
+  }
+}
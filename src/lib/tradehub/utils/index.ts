@@ -1,9 +1,13 @@
 export * from "./address";
 export * from "./blockchain";
+export * from "./cdp";
 export * from "./constants";
 export * from "./cosmos-ledger";
+export * from "./fee";
 export * from "./misc";
+export * from "./multisig";
 export * from "./network";
 export * from "./number";
 export * from "./tx";
+export * from "./txlog";
 export * from "./types";
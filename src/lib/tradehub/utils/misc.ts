@@ -17,3 +17,7 @@ export const stripHexPrefix = (input: string) => {
 export const appendHexPrefix = (input: string) => {
   return input?.slice(0, 2) === "0x" ? input : `0x${input}`;
 };
+
+export const sleep = (duration: number) => {
+  return new Promise<void>((resolve) => setTimeout(resolve, duration));
+};
@@ -0,0 +1,148 @@
+import ripemd160 from 'ripemd160'
+import { sha256 } from 'sha.js'
+
+export const PubKeyTypes = {
+  Secp256k1: "tendermint/PubKeySecp256k1",
+  MultisigThreshold: "tendermint/PubKeyMultisigThreshold",
+} as const
+
+export interface Secp256k1PubKey {
+  type: typeof PubKeyTypes.Secp256k1
+  value: string // base64 encoded compressed public key
+}
+
+export interface MultisigThresholdPubKey {
+  type: typeof PubKeyTypes.MultisigThreshold
+  value: {
+    threshold: string
+    pubkeys: Secp256k1PubKey[]
+  }
+}
+
+// amino type prefixes, see tendermint/crypto amino codec registration
+const AMINO_PREFIX_SECP256K1 = Buffer.from([0xeb, 0x5a, 0xe9, 0x87])
+const AMINO_PREFIX_MULTISIG_THRESHOLD = Buffer.from([0x22, 0xc1, 0xf7, 0xe2])
+
+const encodeUvarint = (input: number): Buffer => {
+  const bytes: number[] = []
+  let value = input
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80)
+    value = Math.floor(value / 0x80)
+  }
+  bytes.push(value)
+  return Buffer.from(bytes)
+}
+
+// amino length-delimited field, i.e. (field number << 3) | 2
+const encodeBytesField = (fieldNumber: number, bytes: Buffer): Buffer => {
+  return Buffer.concat([
+    Buffer.from([(fieldNumber << 3) | 2]),
+    encodeUvarint(bytes.length),
+    bytes,
+  ])
+}
+
+const secp256k1ScriptHash = (publicKeyBase64: string): string => {
+  const sha256Hash = new sha256().update(Buffer.from(publicKeyBase64, "base64")).digest()
+  return new ripemd160().update(sha256Hash).digest("hex")
+}
+
+/**
+ * Creates a threshold multisig public key from the public keys of its members.
+ *
+ * Public keys are sorted by address unless nosort is set to true, following
+ * the default behaviour of `keys add --multisig` in cosmos-sdk.
+ *
+ * @param publicKeysBase64 base64 encoded compressed secp256k1 public keys
+ * @param threshold number of signatures required to sign a tx
+ */
+export const createMultisigThresholdPubKey = (
+  publicKeysBase64: string[],
+  threshold: number,
+  nosort: boolean = false,
+): MultisigThresholdPubKey => {
+  if (threshold < 1)
+    throw new Error("multisig threshold must be at least 1")
+  if (threshold > publicKeysBase64.length)
+    throw new Error(`multisig threshold ${threshold} exceeds number of public keys ${publicKeysBase64.length}`)
+
+  const publicKeys = nosort ? publicKeysBase64 : [...publicKeysBase64].sort((a, b) => {
+    return secp256k1ScriptHash(a).localeCompare(secp256k1ScriptHash(b))
+  })
+
+  return {
+    type: PubKeyTypes.MultisigThreshold,
+    value: {
+      threshold: threshold.toString(),
+      pubkeys: publicKeys.map((value) => ({
+        type: PubKeyTypes.Secp256k1,
+        value,
+      })),
+    },
+  }
+}
+
+/**
+ * Returns the amino binary encoding of a public key, used for
+ * address derivation of multisig accounts.
+ */
+export const encodeAminoPubKey = (pubKey: Secp256k1PubKey | MultisigThresholdPubKey): Buffer => {
+  switch (pubKey.type) {
+    case PubKeyTypes.Secp256k1: {
+      const publicKey = Buffer.from(pubKey.value, "base64")
+      return Buffer.concat([
+        AMINO_PREFIX_SECP256K1,
+        encodeUvarint(publicKey.length),
+        publicKey,
+      ])
+    }
+    case PubKeyTypes.MultisigThreshold: {
+      const threshold = parseInt(pubKey.value.threshold)
+      return Buffer.concat([
+        AMINO_PREFIX_MULTISIG_THRESHOLD,
+        Buffer.from([0x08]), // field 1, varint
+        encodeUvarint(threshold),
+        ...pubKey.value.pubkeys.map((member) => encodeBytesField(2, encodeAminoPubKey(member))),
+      ])
+    }
+    default:
+      throw new Error(`unsupported public key: ${JSON.stringify(pubKey)}`)
+  }
+}
+
+/**
+ * Returns the 20-byte address hash of a multisig public key.
+ */
+export const multisigPubKeyToScriptHash = (pubKey: MultisigThresholdPubKey): string => {
+  const hash = new sha256().update(encodeAminoPubKey(pubKey)).digest()
+  return hash.slice(0, 20).toString("hex")
+}
+
+/**
+ * Encodes member signatures into the amino multisig.Multisignature format.
+ *
+ * @param signatures signatures ordered by the member public keys of the
+ * multisig public key, with null for members that did not sign.
+ */
+export const encodeMultisignature = (signatures: Array<Buffer | null>): Buffer => {
+  // CompactBitArray, marks which members signed
+  const numBits = signatures.length
+  const elems = Buffer.alloc(Math.ceil(numBits / 8))
+  signatures.forEach((signature, index) => {
+    if (signature)
+      elems[index >> 3] |= 1 << (7 - (index % 8))
+  })
+
+  const extraBitsStored = numBits % 8
+  const bitArray = Buffer.concat([
+    // amino omits fields with default values
+    extraBitsStored > 0 ? Buffer.from([0x08, extraBitsStored]) : Buffer.alloc(0),
+    encodeBytesField(2, elems),
+  ])
+
+  return Buffer.concat([
+    encodeBytesField(1, bitArray),
+    ...signatures.filter((signature) => !!signature).map((signature) => encodeBytesField(2, signature)),
+  ])
+}
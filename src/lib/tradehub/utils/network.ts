@@ -30,12 +30,17 @@ export interface NetworkConfig {
   Bech32Prefix: string
 
   RestURL: string
+  // REST URLs to fail over to when RestURL is unhealthy
+  FallbackRestURLs?: string[]
   TendermintURL: string
   WsURL: string
 
   FeeURL: string
   FeeAddress: string
 
+  // CoinGecko API used for token USD prices, defaults to the public API
+  CoinGeckoURL?: string
+
   ChainId: string
 
   Eth: EthNetworkConfig
@@ -1,6 +1,8 @@
 import BigNumber from "bignumber.js";
 import { BN_ONE, DEFAULT_GAS, ONE_SWTH } from "./constants";
 import { sortObject } from "./misc";
+import { MultisigThresholdPubKey } from "./multisig";
+import { TxEvent } from "./txlog";
 
 export interface TxMsgValue { }
 export interface TxMsg<T extends TxMsgValue = TxMsgValue> {
@@ -21,6 +23,14 @@ export class DenomAmount {
     }
   }
 }
+export interface TxFeeJSON {
+  amount: {
+    denom: string
+    amount: string
+  }[]
+  gas: string
+}
+
 export class TxFee {
   constructor(
     public readonly amount: [DenomAmount],
@@ -33,6 +43,14 @@ export class TxFee {
       gas: this.gas.toString(10),
     }
   }
+
+  static fromJSON(json: TxFeeJSON): TxFee {
+    const [feeAmount] = json.amount
+    return new TxFee(
+      [new DenomAmount(new BigNumber(feeAmount.amount), feeAmount.denom)],
+      new BigNumber(json.gas),
+    )
+  }
 }
 
 export const DEFAULT_FEE = new TxFee(
@@ -54,13 +72,17 @@ export class PreSignDoc {
     return this;
   }
 
-  public prepare(accountNumber: number, sequence: number): StdSignDoc {
+  /**
+   * @param fee tx fee, defaults to 1 SWTH per msg if not provided.
+   * @see FeeEstimator for calculating fees from on chain msg fees.
+   */
+  public prepare(accountNumber: number, sequence: number, fee?: TxFee): StdSignDoc {
     return new StdSignDoc(
       accountNumber,
       sequence,
       this.chainId,
       this.msgs,
-      new TxFee(
+      fee ?? new TxFee(
         [new DenomAmount(ONE_SWTH.times(this.msgs.length))],
         DEFAULT_GAS,
       ),
@@ -80,24 +102,68 @@ export class StdSignDoc {
   ) { }
 
   public sortedJson(): string {
-    const json = JSON.parse(JSON.stringify({
+    const json = JSON.parse(JSON.stringify(this))
+    const sortedDoc = sortObject(json);
+    return JSON.stringify(sortedDoc);
+  }
+
+  /**
+   * Returns the tx to be broadcasted with the provided signatures.
+   */
+  public toTx(signatures: TradeHubSignature[]): TradeHubTx {
+    return {
+      fee: this.fee,
+      memo: this.memo,
+      msg: this.msgs,
+      signatures,
+    }
+  }
+
+  public toJSON(): StdSignDocJSON {
+    return {
       chain_id: this.chain_id,
       account_number: this.account_number.toString(),
       sequence: this.sequence.toString(),
-      fee: this.fee,
+      fee: {
+        amount: this.fee.amount.map((amount) => amount.toJSON()),
+        gas: this.fee.gas.toString(10),
+      },
       msgs: this.msgs,
       memo: this.memo,
-    }))
-    const sortedDoc = sortObject(json);
-    return JSON.stringify(sortedDoc);
+    }
   }
+
+  /**
+   * Restores a sign doc serialized with JSON.stringify(doc), e.g. when
+   * transferring an unsigned tx to an offline machine for signing.
+   */
+  static fromJSON(input: string | StdSignDocJSON): StdSignDoc {
+    const json: StdSignDocJSON = typeof input === "string" ? JSON.parse(input) : input
+    return new StdSignDoc(
+      parseInt(json.account_number),
+      parseInt(json.sequence),
+      json.chain_id,
+      json.msgs,
+      TxFee.fromJSON(json.fee),
+      json.memo ?? "",
+    )
+  }
+}
+
+export interface StdSignDocJSON {
+  chain_id: string
+  account_number: string
+  sequence: string
+  fee: TxFeeJSON
+  msgs: TxMsg[]
+  memo: string
 }
 
 export interface TradeHubSignature {
   pub_key: {
     type: string;
     value: string;
-  };
+  } | MultisigThresholdPubKey;
   signature: string;
 }
 
@@ -108,20 +174,29 @@ export interface TradeHubTx {
   signatures: TradeHubSignature[];
 }
 
+/**
+ * block - waits for the tx to be committed in a block
+ * sync - returns after the tx passes CheckTx
+ * async - returns immediately after the tx is sent to the node
+ */
+export type BroadcastTxMode = "block" | "sync" | "async"
+
 export interface BroadcastTx {
-  mode: string;
+  mode: BroadcastTxMode;
   tx: TradeHubTx;
 }
 
 export interface TxRequest {
   msg: TxMsg;
-  promise: Promise<TxResponse>;
+  memo?: string;
+  resolve: (response: TxResponse) => void;
+  reject: (reason?: any) => void;
 }
 
 export interface TxLog {
   msg_index: number;
   log: string;
-  events: unknown[]
+  events: TxEvent[]
 }
 
 export interface TxResponse {
@@ -140,3 +215,22 @@ export interface TxResponse {
   error?: string;
   codespace?: string;
 }
+
+const SEQUENCE_MISMATCH_LOGS = [
+  // cosmos-sdk v0.39 ante handler
+  "verify correct account sequence",
+  // cosmos-sdk v0.40+ ante handler
+  "incorrect account sequence",
+  "account sequence mismatch",
+];
+
+/**
+ * Checks if a tx was rejected because it was signed with a stale
+ * account sequence, e.g. when the same key is used by another process.
+ */
+export const isSequenceMismatch = (response: TxResponse): boolean => {
+  if (!response?.code && !response?.error) return false
+
+  const log = response.raw_log ?? response.error ?? ""
+  return SEQUENCE_MISMATCH_LOGS.some((message) => log.includes(message))
+}
@@ -0,0 +1,143 @@
+import { TxTypes } from "./constants";
+import { TxLog, TxMsg, TxResponse } from "./tx";
+import { SimpleMap } from "./types";
+
+export interface TxEventAttribute {
+  key: string
+  value: string
+}
+
+export interface TxEvent {
+  type: string
+  attributes: TxEventAttribute[]
+}
+
+export interface TxMsgResult {
+  msgIndex: number
+  msgType: string
+  log: string
+  events: TxEvent[]
+}
+
+export interface CreateOrderResult extends TxMsgResult {
+  orderId?: string
+}
+
+export interface CreatePoolResult extends TxMsgResult {
+  poolId?: string
+}
+
+export interface SubmitProposalResult extends TxMsgResult {
+  proposalId?: string
+}
+
+export type TxMsgDecoder<T extends TxMsgResult = TxMsgResult> = (result: TxMsgResult) => T
+
+/**
+ * Tx response with the decoded results of each msg, ordered as
+ * the msgs in the tx.
+ */
+export interface DecodedTxResponse<T extends TxMsgResult = TxMsgResult> extends TxResponse {
+  results: T[]
+}
+
+/**
+ * Returns the value of the first event attribute matching one of the
+ * keys, optionally restricted to the given event types.
+ *
+ * Falls back to the msg log if it is a JSON object, as some msg
+ * handlers report created IDs through the log instead of events.
+ */
+export const findTxMsgAttribute = (result: TxMsgResult, keys: string[], eventTypes?: string[]): string | undefined => {
+  for (const event of result.events) {
+    if (eventTypes && !eventTypes.includes(event.type))
+      continue;
+
+    const attribute = event.attributes?.find((attribute) => keys.includes(attribute.key));
+    if (attribute)
+      return attribute.value;
+  }
+
+  const log = parseJsonLog(result.log);
+  for (const key of keys) {
+    const value = findNestedValue(log, key);
+    if (value !== undefined)
+      return value;
+  }
+
+  return undefined;
+}
+
+export const decodeCreateOrder: TxMsgDecoder<CreateOrderResult> = (result) => ({
+  ...result,
+  orderId: findTxMsgAttribute(result, ["order_id"]),
+})
+
+export const decodeCreatePool: TxMsgDecoder<CreatePoolResult> = (result) => ({
+  ...result,
+  poolId: findTxMsgAttribute(result, ["pool_id"]),
+})
+
+export const decodeSubmitProposal: TxMsgDecoder<SubmitProposalResult> = (result) => ({
+  ...result,
+  proposalId: findTxMsgAttribute(result, ["proposal_id"], ["submit_proposal", "proposal_deposit"]),
+})
+
+/**
+ * Decoders for msg types with typed results, other msg types
+ * are decoded into TxMsgResult.
+ */
+export const TxMsgDecoders: SimpleMap<TxMsgDecoder<TxMsgResult>> = {
+  [TxTypes.Order.CREATE]: decodeCreateOrder,
+  [TxTypes.LiquidityPool.CREATE_POOL]: decodeCreatePool,
+  [TxTypes.LiquidityPool.CREATE_POOL_WITH_LIQUIDITY]: decodeCreatePool,
+  [TxTypes.Governance.SUBMIT_PROPOSAL]: decodeSubmitProposal,
+};
+
+/**
+ * Decodes the logs of a committed tx into per-msg results.
+ *
+ * @param response response of a tx broadcasted in `block` mode
+ * @param msgs msgs of the tx, used to pick the decoder of each log
+ */
+export const decodeTxResponse = <T extends TxMsgResult = TxMsgResult>(response: TxResponse, msgs: TxMsg[]): DecodedTxResponse<T> => {
+  const results = msgs.map((msg, index) => {
+    const log: TxLog | undefined = response.logs?.find((log) => log.msg_index === index) ?? response.logs?.[index];
+    const result: TxMsgResult = {
+      msgIndex: index,
+      msgType: msg.type,
+      log: log?.log ?? "",
+      events: log?.events ?? [],
+    };
+
+    const decoder = TxMsgDecoders[msg.type];
+    return (decoder ? decoder(result) : result) as T;
+  });
+
+  return { ...response, results };
+}
+
+const parseJsonLog = (log: string): unknown => {
+  try {
+    return JSON.parse(log);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+const findNestedValue = (input: unknown, key: string): string | undefined => {
+  if (!input || typeof input !== "object")
+    return undefined;
+
+  const value = (input as SimpleMap<unknown>)[key];
+  if (typeof value === "string" || typeof value === "number")
+    return value.toString();
+
+  for (const child of Object.values(input as SimpleMap<unknown>)) {
+    const nestedValue = findNestedValue(child, key);
+    if (nestedValue !== undefined)
+      return nestedValue;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,61 @@
+import { ethers } from "ethers";
+import { BIP44Path, SWTHAddress } from "../utils";
+
+export interface KeystoreEncryptOpts {
+  /**
+   * Scrypt parameters for the key derivation, defaults to
+   * N = 131072, r = 8, p = 1.
+   */
+  scrypt?: {
+    N?: number
+    r?: number
+    p?: number
+  }
+
+  /**
+   * Called with the key derivation progress from 0 to 1.
+   */
+  onProgress?: (percent: number) => void
+}
+
+export interface KeystoreSecret {
+  privateKey: Buffer
+  mnemonic?: string
+}
+
+const mnemonicPath = (): string => {
+  return new BIP44Path(undefined, SWTHAddress.coinType()).generate();
+}
+
+/**
+ * Encrypts a private key into a Web3 secret storage (v3) keystore JSON,
+ * using scrypt for key derivation and aes-128-ctr for encryption.
+ *
+ * If the mnemonic is provided it is encrypted as well, and restored
+ * by decryptKeystore.
+ */
+export const encryptKeystore = async (secret: KeystoreSecret, password: string, opts: KeystoreEncryptOpts = {}): Promise<string> => {
+  const privateKey = ethers.utils.hexlify(secret.privateKey);
+  const account = {
+    address: ethers.utils.computeAddress(privateKey),
+    privateKey,
+    mnemonic: secret.mnemonic ? { phrase: secret.mnemonic, path: mnemonicPath() } : undefined,
+  };
+
+  const wallet = new ethers.Wallet(account);
+  return await wallet.encrypt(password, { scrypt: opts.scrypt }, opts.onProgress);
+}
+
+/**
+ * Decrypts a Web3 secret storage keystore JSON, supports both scrypt
+ * and pbkdf2 key derivation.
+ *
+ * Throws if the password is incorrect.
+ */
+export const decryptKeystore = async (json: string, password: string, onProgress?: (percent: number) => void): Promise<KeystoreSecret> => {
+  const account = await ethers.Wallet.fromEncryptedJson(json, password, onProgress);
+  return {
+    privateKey: Buffer.from(account.privateKey.substring(2), "hex"),
+    mnemonic: account.mnemonic?.phrase,
+  };
+}
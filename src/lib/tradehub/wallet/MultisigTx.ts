@@ -0,0 +1,81 @@
+import { encodeMultisignature, MultisigThresholdPubKey, Network, StdSignDoc, SWTHAddress, TradeHubSignature, TradeHubTx } from "../utils";
+import { TradeHubWallet } from "./TradeHubWallet";
+
+/**
+ * Collects member signatures of a threshold multisig account over a
+ * single sign doc, and combines them into the multisig signature
+ * format accepted by the chain.
+ *
+ * Member signatures can be obtained with OfflineTx.signDoc.
+ *
+ * @example
+ * const pubKey = createMultisigThresholdPubKey([pubKeyA, pubKeyB, pubKeyC], 2);
+ * const address = SWTHAddress.multisigPublicKeyToAddress(pubKey, { network });
+ *
+ * const multisigTx = new MultisigTx(pubKey, doc);
+ * multisigTx.addSignature(await OfflineTx.signDoc(doc, signerA, pubKeyA));
+ * multisigTx.addSignature(await OfflineTx.signDoc(doc, signerC, pubKeyC));
+ *
+ * await OfflineTx.broadcast(api, multisigTx.combine());
+ */
+export class MultisigTx {
+  // member signatures keyed by base64 encoded member public key
+  public readonly signatures: {
+    [publicKeyBase64: string]: Buffer
+  } = {}
+
+  constructor(
+    public readonly pubKey: MultisigThresholdPubKey,
+    public readonly doc: StdSignDoc,
+  ) { }
+
+  public get threshold(): number {
+    return parseInt(this.pubKey.value.threshold);
+  }
+
+  public get memberPublicKeys(): string[] {
+    return this.pubKey.value.pubkeys.map((pubKey) => pubKey.value);
+  }
+
+  public getAddress(network: Network = Network.MainNet): string {
+    return SWTHAddress.multisigPublicKeyToAddress(this.pubKey, { network });
+  }
+
+  /**
+   * Adds a member signature, throws if the signer is not a member
+   * of the multisig or the signature is invalid for the sign doc.
+   */
+  public addSignature(signature: TradeHubSignature): MultisigTx {
+    const publicKey = signature.pub_key.value;
+    if (typeof publicKey !== "string" || !this.memberPublicKeys.includes(publicKey))
+      throw new Error("signer is not a member of the multisig");
+
+    if (!TradeHubWallet.verifySignature(signature.signature, this.doc.sortedJson(), publicKey))
+      throw new Error("invalid signature for sign doc");
+
+    this.signatures[publicKey] = Buffer.from(signature.signature, "base64");
+    return this;
+  }
+
+  public isComplete(): boolean {
+    return Object.keys(this.signatures).length >= this.threshold;
+  }
+
+  /**
+   * Combines member signatures into a tx signed by the multisig account.
+   */
+  public combine(): TradeHubTx {
+    const signatureCount = Object.keys(this.signatures).length;
+    if (!this.isComplete())
+      throw new Error(`insufficient signatures: ${signatureCount} of ${this.threshold} required`);
+
+    // signatures must follow the order of member public keys
+    const memberSignatures = this.memberPublicKeys.map((publicKey) => this.signatures[publicKey] ?? null);
+    const multisignature = encodeMultisignature(memberSignatures);
+
+    return this.doc.toTx([{
+      pub_key: this.pubKey,
+      signature: multisignature.toString("base64"),
+    }]);
+  }
+}
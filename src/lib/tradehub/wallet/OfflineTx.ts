@@ -0,0 +1,121 @@
+import { APIClient } from "../api";
+import { BroadcastTxMode, FeeEstimator, Network, NetworkConfigs, PreSignDoc, PubKeyTypes, sortObject, StdSignDoc, TradeHubSignature, TradeHubTx, TxFee, TxFeeJSON, TxMsg, TxResponse } from "../utils";
+import { TradeHubSigner } from "./TradeHubSigner";
+import { TradeHubWallet } from "./TradeHubWallet";
+
+export interface OfflineSignDocOpts {
+  accountNumber: number
+  sequence: number
+  msgs: TxMsg[]
+  memo?: string
+
+  // chain ID is taken from network config if not provided
+  chainId?: string
+  network?: Network
+
+  // fee is calculated with feeEstimator, or 1 SWTH per msg
+  // if neither are provided
+  fee?: TxFee
+  feeEstimator?: FeeEstimator
+}
+
+/**
+ * Helpers for signing txs on an offline (air-gapped) machine.
+ *
+ * @example
+ * // online machine, with account number and sequence from APIClient.getAccount
+ * const doc = OfflineTx.buildSignDoc({ accountNumber, sequence, msgs, network });
+ * fs.writeFileSync("unsigned.json", OfflineTx.serialize(doc));
+ *
+ * // offline machine
+ * const doc = OfflineTx.deserialize(fs.readFileSync("unsigned.json", "utf8"));
+ * const tx = await OfflineTx.sign(doc, signer, publicKeyBase64);
+ * fs.writeFileSync("signed.json", JSON.stringify(tx));
+ *
+ * // online machine
+ * const tx = OfflineTx.parseTx(fs.readFileSync("signed.json", "utf8"));
+ * if (!OfflineTx.verify(doc, tx)) throw new Error("invalid signature");
+ * await OfflineTx.broadcast(api, tx);
+ */
+export class OfflineTx {
+  public static buildSignDoc(opts: OfflineSignDocOpts): StdSignDoc {
+    const chainId = opts.chainId ?? NetworkConfigs[opts.network ?? Network.MainNet].ChainId;
+    const fee = opts.fee ?? opts.feeEstimator?.estimate(opts.msgs);
+
+    const preSignDoc = new PreSignDoc(chainId, opts.memo);
+    return preSignDoc
+      .appendMsg(...opts.msgs)
+      .prepare(opts.accountNumber, opts.sequence, fee);
+  }
+
+  public static serialize(doc: StdSignDoc): string {
+    return JSON.stringify(doc, null, 2);
+  }
+
+  public static deserialize(json: string): StdSignDoc {
+    return StdSignDoc.fromJSON(json);
+  }
+
+  /**
+   * Signs the doc without any network access.
+   */
+  public static async sign(doc: StdSignDoc, signer: TradeHubSigner, publicKeyBase64: string): Promise<TradeHubTx> {
+    const signature = await OfflineTx.signDoc(doc, signer, publicKeyBase64);
+    return doc.toTx([signature]);
+  }
+
+  /**
+   * Returns the signature without building the tx, e.g. for
+   * collecting partial signatures of a multisig account.
+   */
+  public static async signDoc(doc: StdSignDoc, signer: TradeHubSigner, publicKeyBase64: string): Promise<TradeHubSignature> {
+    const signatureBuffer = await signer.sign(doc);
+    return {
+      pub_key: {
+        type: PubKeyTypes.Secp256k1,
+        value: publicKeyBase64,
+      },
+      signature: signatureBuffer.toString("base64"),
+    };
+  }
+
+  /**
+   * Restores a tx serialized with JSON.stringify(tx).
+   */
+  public static parseTx(input: string | object): TradeHubTx {
+    const json = typeof input === "string" ? JSON.parse(input) : input;
+    return {
+      ...json,
+      fee: TxFee.fromJSON(json.fee as TxFeeJSON),
+    };
+  }
+
+  /**
+   * Checks that the tx content matches the sign doc and that
+   * all signatures are valid for the sign doc.
+   *
+   * Only single key signatures are supported, use MultisigTx to
+   * check multisig member signatures before combining them.
+   */
+  public static verify(doc: StdSignDoc, tx: TradeHubTx): boolean {
+    const sortedJson = (input: unknown) => JSON.stringify(sortObject(JSON.parse(JSON.stringify(input))));
+    if (sortedJson(tx) !== sortedJson(doc.toTx(tx.signatures)))
+      return false;
+
+    if (!tx.signatures.length)
+      return false;
+
+    const plaintext = doc.sortedJson();
+    return tx.signatures.every((signature) => {
+      const publicKey = signature.pub_key.value;
+      if (typeof publicKey !== "string")
+        return false;
+
+      return TradeHubWallet.verifySignature(signature.signature, plaintext, publicKey);
+    });
+  }
+
+  public static async broadcast(api: APIClient, tx: TradeHubTx, mode: BroadcastTxMode = "block"): Promise<TxResponse> {
+    return (await api.tx({ mode, tx })) as TxResponse;
+  }
+}
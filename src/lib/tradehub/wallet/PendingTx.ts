@@ -0,0 +1,79 @@
+import { APIClient } from "../api";
+import { RequestError } from "../api/APIConnector";
+import { RestModels } from "../models";
+import { BroadcastTxMode, sleep, TxResponse } from "../utils";
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_CONFIRM_TIMEOUT = 60000;
+
+export interface PendingTxConfirmOpts {
+  /**
+   * Delay in milliseconds between each tx query, defaults to 1000ms.
+   */
+  pollInterval?: number
+
+  /**
+   * Duration in milliseconds to wait for the tx to be committed
+   * before giving up, defaults to 60000ms.
+   */
+  timeout?: number
+}
+
+/**
+ * Handle for a tx broadcasted with `sync` or `async` mode.
+ *
+ * The tx hash is available immediately, call `PendingTx.confirm` to
+ * wait for the tx to be committed.
+ */
+export class PendingTx {
+  constructor(
+    public readonly txhash: string,
+    public readonly mode: BroadcastTxMode,
+    public readonly response: TxResponse,
+    private readonly api: APIClient,
+  ) { }
+
+  /**
+   * Polls for the tx until it is committed or the timeout is reached.
+   *
+   * Rejects if the tx is committed with a non-zero code, or if the
+   * tx cannot be found before the timeout.
+   */
+  public async confirm(opts: PendingTxConfirmOpts = {}): Promise<RestModels.TxnHistory> {
+    const pollInterval = opts.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const timeout = opts.timeout ?? DEFAULT_CONFIRM_TIMEOUT;
+    const deadline = Date.now() + timeout;
+
+    while (true) {
+      const tx = await this.queryTx();
+      if (tx) {
+        if (tx.code && tx.code !== "0")
+          throw new Error(`[${tx.code}] tx ${this.txhash} failed`);
+
+        return tx;
+      }
+
+      if (Date.now() + pollInterval > deadline)
+        throw new Error(`tx ${this.txhash} not confirmed after ${timeout}ms`);
+
+      await sleep(pollInterval);
+    }
+  }
+
+  private async queryTx(): Promise<RestModels.TxnHistory | null> {
+    try {
+      const tx = await this.api.getTx({ hash: this.txhash });
+
+      // tx not indexed yet
+      if (!tx?.hash)
+        return null;
+
+      return tx;
+    } catch (error) {
+      if (error instanceof RequestError && error.result.status === 404)
+        return null;
+
+      throw error;
+    }
+  }
+}
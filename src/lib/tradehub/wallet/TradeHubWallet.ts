@@ -1,15 +1,35 @@
 import { Network } from "@lib/types";
 import { stringOrBufferToBuffer, SWTHAddress } from "@lib/utils";
+import BigNumber from "bignumber.js";
 import { ethers } from "ethers";
 import secp256k1 from 'secp256k1';
 import { sha256 } from 'sha.js';
 import { APIClient } from "../api";
+import { APIClientOpts } from "../api/APIClient";
 import { RestModels } from "../models";
-import { BroadcastTx, CosmosLedger, NetworkConfig, NetworkConfigs, PreSignDoc, StdSignDoc, TradeHubSignature, TradeHubTx, TxMsg, TxRequest, TxResponse } from "../utils";
+import { BroadcastTx, BroadcastTxMode, CosmosLedger, FeeEstimator, isSequenceMismatch, NetworkConfig, NetworkConfigs, PreSignDoc, SimpleMap, StdSignDoc, TradeHubSignature, TradeHubTx, TxMsg, TxRequest, TxResponse } from "../utils";
+import { decryptKeystore, encryptKeystore, KeystoreEncryptOpts } from "./Keystore";
+import { PendingTx } from "./PendingTx";
 import { TradeHubSigner } from "./TradeHubSigner";
 
 export type OnRequestSignCallback = (signDoc: StdSignDoc) => void | Promise<void>
 export type OnSignCompleteCallback = (signatureBase64: string) => void | Promise<void>
+export type OnSequenceRetryCallback = (info: SequenceRetryInfo) => void | Promise<void>
+
+const DEFAULT_SEQUENCE_RETRY_LIMIT = 1;
+
+// max number of msgs batched into a single tx by the broadcast queue
+const DEFAULT_MAX_MSGS_PER_TX = 100;
+
+export interface SequenceRetryInfo {
+  // 1 for the first retry, 2 for the second, etc.
+  attempt: number
+  retryLimit: number
+
+  // the stale sequence that the rejected tx was signed with
+  sequence: number
+  response: TxResponse
+}
 
 export interface TradeHubWalletGenericOpts {
   debugMode?: boolean
@@ -18,6 +38,24 @@ export interface TradeHubWalletGenericOpts {
 
   config?: Partial<NetworkConfig>
 
+  /**
+   * Retry, middleware, cache, timeout and rate limit options of the
+   * REST API client used to load the account and broadcast txs.
+   * Set to the SDK's apiOpts when connected through TradeHubSDK.
+   */
+  apiOpts?: APIClientOpts
+
+  /**
+   * Msg fees used to calculate tx fees, see APIClient.getTxnFees.
+   * Updated by TradeHubSDK.reloadTxnFees when connected to an SDK.
+   */
+  txFees?: SimpleMap<BigNumber>
+
+  /**
+   * Fee per msg if the msg fee is not found in txFees, defaults to 1 SWTH.
+   */
+  defaultFee?: BigNumber
+
   /**
    * Optional callback that will be called before signing is requested/executed.
    */
@@ -27,6 +65,64 @@ export interface TradeHubWalletGenericOpts {
    * Optional callback that will be called when signing is complete.
    */
   onSignComplete?: OnSignCompleteCallback
+
+  /**
+   * Number of times to reload the account and resend a tx that was
+   * rejected due to an account sequence mismatch, defaults to 1.
+   * Set to 0 to disable retries.
+   */
+  sequenceRetryLimit?: number
+
+  /**
+   * Optional callback that will be called before each sequence
+   * mismatch retry.
+   */
+  onSequenceRetry?: OnSequenceRetryCallback
+
+  /**
+   * Batches single msg TradeHubWallet.sendTx calls into one tx when set to true.
+   * Only applies to "block" broadcast mode, batched txs use the wallet's
+   * sequenceRetryLimit. Other sends wait for the batch being broadcasted
+   * and are not merged into it.
+   */
+  useBroadcastQueue?: boolean
+
+  /**
+   * Delay in milliseconds to wait for more msgs before the queue is
+   * broadcasted, defaults to 0 (msgs sent within the same tick).
+   */
+  broadcastQueueWindow?: number
+
+  /**
+   * Max number of msgs in a batched tx, defaults to 100.
+   */
+  maxMsgsPerTx?: number
+}
+
+export interface TradeHubWalletSendTxOpts {
+  /**
+   * Broadcast mode for the tx, defaults to "block".
+   *
+   * With "sync" or "async" modes the tx hash is returned without waiting
+   * for the tx to be committed, see PendingTx.
+   */
+  mode?: BroadcastTxMode
+
+  /**
+   * Overrides TradeHubWallet.sequenceRetryLimit for this tx.
+   */
+  sequenceRetryLimit?: number
+
+  /**
+   * Overrides the total fee amount (in swth sats) calculated by
+   * TradeHubWallet.feeEstimator for this tx.
+   */
+  fee?: BigNumber
+
+  /**
+   * Overrides the default gas for this tx.
+   */
+  gas?: BigNumber
 }
 
 export type TradeHubWalletInitOpts = TradeHubWalletGenericOpts & ({
@@ -88,6 +184,7 @@ export class TradeHubWallet {
 
   configOverride: Partial<NetworkConfig>
   networkConfig: NetworkConfig
+  apiOpts: APIClientOpts
 
   mnemonic?: string
   privateKey?: Buffer
@@ -98,14 +195,33 @@ export class TradeHubWallet {
   onRequestSign?: OnRequestSignCallback
   onSignComplete?: OnSignCompleteCallback
 
+  feeEstimator: FeeEstimator
+
+  sequenceRetryLimit: number
+  onSequenceRetry?: OnSequenceRetryCallback
+
   // required for signature generation
   pubKeyBase64: string
 
   account?: number
   sequence?: number
 
+  useBroadcastQueue: boolean
+  broadcastQueueWindow: number
+  maxMsgsPerTx: number
   txBroadcastQueue: TxRequest[] = []
 
+  // timeout ID for the scheduled broadcast queue run
+  broadcastQueueTimeout?: number
+
+  // true while a batched tx is being signed/broadcasted
+  isProcessingQueue: boolean = false
+
+  // settles after the last tx is signed and broadcasted, direct sends
+  // and broadcast queue batches wait on it so that each tx is signed
+  // with the sequence left by the previous one
+  txLock: Promise<unknown> = Promise.resolve()
+
   // for analytics
   providerAgent?: string
 
@@ -113,11 +229,19 @@ export class TradeHubWallet {
     this.debugMode = opts.debugMode ?? false
 
     this.configOverride = opts.config ?? {};
+    this.apiOpts = opts.apiOpts ?? {};
     this.providerAgent = opts.providerAgent;
     this.updateNetwork(opts.network ?? Network.MainNet);
 
     this.onRequestSign = opts.onRequestSign;
     this.onSignComplete = opts.onSignComplete;
+    this.onSequenceRetry = opts.onSequenceRetry;
+    this.feeEstimator = new FeeEstimator(opts.txFees, opts.defaultFee);
+    this.sequenceRetryLimit = opts.sequenceRetryLimit ?? DEFAULT_SEQUENCE_RETRY_LIMIT;
+
+    this.useBroadcastQueue = opts.useBroadcastQueue ?? false;
+    this.broadcastQueueWindow = opts.broadcastQueueWindow ?? 0;
+    this.maxMsgsPerTx = opts.maxMsgsPerTx ?? DEFAULT_MAX_MSGS_PER_TX;
 
     this.mnemonic = opts.mnemonic
     if (this.mnemonic) {
@@ -147,7 +271,8 @@ export class TradeHubWallet {
       ...this.configOverride,
     };
 
-    this.api = new APIClient(this.networkConfig.RestURL, {
+    this.api = new APIClient([this.networkConfig.RestURL, ...this.networkConfig.FallbackRestURLs ?? []], {
+      ...this.apiOpts,
       debugMode: this.debugMode,
     });
 
@@ -174,6 +299,23 @@ export class TradeHubWallet {
     })
   }
 
+  /**
+   * Restores a wallet from a keystore JSON created by
+   * TradeHubWallet.exportKeystore, or any Web3 secret storage
+   * keystore of a TradeHub private key.
+   */
+  public static async withKeystore(
+    json: string,
+    password: string,
+    opts: Omit<TradeHubWalletInitOpts, "mnemonic" | "privateKey"> = {}
+  ) {
+    const secret = await decryptKeystore(json, password);
+    if (secret.mnemonic)
+      return TradeHubWallet.withMnemonic(secret.mnemonic, opts);
+
+    return TradeHubWallet.withPrivateKey(secret.privateKey, opts);
+  }
+
   public static withSigner(
     signer: TradeHubSigner,
     publicKeyBase64: string,
@@ -197,6 +339,23 @@ export class TradeHubWallet {
     return wallet;
   }
 
+  /**
+   * Encrypts the wallet private key, and mnemonic if available, into
+   * a password protected keystore JSON.
+   *
+   * Wallets connected with a custom signer (e.g. Ledger) cannot
+   * be exported.
+   */
+  public async exportKeystore(password: string, opts?: KeystoreEncryptOpts): Promise<string> {
+    if (!this.privateKey)
+      throw new Error("wallet private key not available for export");
+
+    return await encryptKeystore({
+      privateKey: this.privateKey,
+      mnemonic: this.mnemonic,
+    }, password, opts);
+  }
+
   public async loadAccount(): Promise<RestModels.Account> {
     const address = this.bech32Address;
     const response = await this.api.getAccount({ address });
@@ -222,48 +381,31 @@ export class TradeHubWallet {
   }
 
   public async teardown() {
-    // no action required yet.
-  }
+    clearTimeout(this.broadcastQueueTimeout);
+    this.broadcastQueueTimeout = undefined;
 
-  public async sendTxs(msgs: TxMsg[], memo?: string): Promise<TxResponse> {
-    const { account, sequence } = this.checkAccountInit();
-    this.log("sendTx", account, sequence);
-
-    const doc = this.genSignDoc(msgs, memo).prepare(account, sequence);
-    const signature = await this.sign(doc);
-
-    const tx: TradeHubTx = {
-      fee: doc.fee,
-      memo: doc.memo,
-      msg: doc.msgs,
-      signatures: [signature],
-    };
-
-    const broadcastTx: BroadcastTx = {
-      mode: "block",
-      tx,
-    };
-
-    this.log("sendTx", JSON.stringify(broadcastTx));
-
-    const response = (await this.api.tx(broadcastTx)) as TxResponse;
-    if (response.code || response.error) {
-      // tx failed
-      console.error(response);
-      if (response.error)
-        throw new Error(response.error);
-      else
-        throw new Error(`[${response.code}] ${response.raw_log}`);
-    } else {
-      // tx successful
-      this.sequence++;
+    const requests = this.txBroadcastQueue.splice(0);
+    const error = new Error("wallet teardown, tx not broadcasted");
+    for (const request of requests) {
+      request.reject(error);
     }
+  }
 
-    return response;
+  public async sendTxs(msgs: TxMsg[], memo?: string, opts?: TradeHubWalletSendTxOpts & { mode?: "block" }): Promise<TxResponse>
+  public async sendTxs(msgs: TxMsg[], memo: string | undefined, opts: TradeHubWalletSendTxOpts & { mode: "sync" | "async" }): Promise<PendingTx>
+  public async sendTxs(msgs: TxMsg[], memo?: string, opts?: TradeHubWalletSendTxOpts): Promise<TxResponse | PendingTx>
+  public async sendTxs(msgs: TxMsg[], memo?: string, opts: TradeHubWalletSendTxOpts = {}): Promise<TxResponse | PendingTx> {
+    return this.signAndBroadcast(msgs, memo, opts);
   }
 
-  public async sendTx(msg: TxMsg, memo?: string): Promise<TxResponse> {
-    return this.sendTxs([msg], memo);
+  public async sendTx(msg: TxMsg, memo?: string, opts?: TradeHubWalletSendTxOpts & { mode?: "block" }): Promise<TxResponse>
+  public async sendTx(msg: TxMsg, memo: string | undefined, opts: TradeHubWalletSendTxOpts & { mode: "sync" | "async" }): Promise<PendingTx>
+  public async sendTx(msg: TxMsg, memo?: string, opts?: TradeHubWalletSendTxOpts): Promise<TxResponse | PendingTx>
+  public async sendTx(msg: TxMsg, memo?: string, opts: TradeHubWalletSendTxOpts = {}): Promise<TxResponse | PendingTx> {
+    if (this.useBroadcastQueue && (opts.mode ?? "block") === "block")
+      return this.enqueueTx(msg, memo);
+
+    return this.signAndBroadcast([msg], memo, opts);
   }
 
   public isSigner(signerType: TradeHubSigner.Type) {
@@ -296,6 +438,149 @@ export class TradeHubWallet {
     return secp256k1.ecdsaVerify(signatureBuffer, message, publicKey);
   }
 
+  private signAndBroadcast(msgs: TxMsg[], memo: string | undefined, opts: TradeHubWalletSendTxOpts): Promise<TxResponse | PendingTx> {
+    const result = this.txLock.then(() => this.signAndBroadcastTx(msgs, memo, opts));
+    this.txLock = result.catch(() => undefined);
+    return result;
+  }
+
+  private async signAndBroadcastTx(msgs: TxMsg[], memo: string | undefined, opts: TradeHubWalletSendTxOpts): Promise<TxResponse | PendingTx> {
+    const mode = opts.mode ?? "block";
+    const retryLimit = opts.sequenceRetryLimit ?? this.sequenceRetryLimit;
+
+    let attempt = 0;
+    while (true) {
+      const { account, sequence } = this.checkAccountInit();
+      this.log("sendTx", account, sequence, mode);
+
+      const fee = this.feeEstimator.estimate(msgs, opts);
+      const doc = this.genSignDoc(msgs, memo).prepare(account, sequence, fee);
+      const signature = await this.sign(doc);
+
+      const tx: TradeHubTx = doc.toTx([signature]);
+
+      const broadcastTx: BroadcastTx = {
+        mode,
+        tx,
+      };
+
+      this.log("sendTx", JSON.stringify(broadcastTx));
+
+      const response = (await this.api.tx(broadcastTx)) as TxResponse;
+      if (isSequenceMismatch(response) && attempt < retryLimit) {
+        attempt++;
+        this.log("sequence mismatch, retrying", attempt, "of", retryLimit);
+        await this.notifySequenceRetry({ attempt, retryLimit, sequence, response });
+
+        // reload account to obtain latest sequence, then re-sign
+        await this.loadAccount();
+        continue;
+      }
+
+      if (response.code || response.error) {
+        // tx failed
+        console.error(response);
+        if (response.error)
+          throw new Error(response.error);
+        else
+          throw new Error(`[${response.code}] ${response.raw_log}`);
+      } else {
+        // tx successful, or accepted into mempool for
+        // sync/async broadcast modes
+        this.sequence++;
+      }
+
+      if (mode !== "block")
+        return new PendingTx(response.txhash, mode, response, this.api);
+
+      return response;
+    }
+  }
+
+  private enqueueTx(msg: TxMsg, memo?: string): Promise<TxResponse> {
+    return new Promise((resolve, reject) => {
+      this.txBroadcastQueue.push({ msg, memo, resolve, reject });
+      this.scheduleBroadcastQueue();
+    });
+  }
+
+  private scheduleBroadcastQueue() {
+    // queue run already scheduled
+    if (this.broadcastQueueTimeout !== undefined)
+      return;
+
+    this.broadcastQueueTimeout = setTimeout(() => {
+      this.broadcastQueueTimeout = undefined;
+      this.processBroadcastQueue();
+    }, this.broadcastQueueWindow) as unknown as number;
+  }
+
+  private async processBroadcastQueue() {
+    // requests queued while a batch is being processed
+    // will be picked up by the running loop below.
+    if (this.isProcessingQueue)
+      return;
+
+    this.isProcessingQueue = true;
+    try {
+      while (this.txBroadcastQueue.length > 0) {
+        const batch = this.takeBroadcastBatch();
+        await this.broadcastBatch(batch);
+      }
+    } finally {
+      this.isProcessingQueue = false;
+    }
+  }
+
+  private takeBroadcastBatch(): TxRequest[] {
+    // there can only be one memo per tx, so only
+    // consecutive requests with the same memo are batched.
+    const memo = this.txBroadcastQueue[0].memo ?? "";
+
+    let count = 0;
+    while (
+      count < this.txBroadcastQueue.length &&
+      count < this.maxMsgsPerTx &&
+      (this.txBroadcastQueue[count].memo ?? "") === memo
+    ) {
+      count++;
+    }
+
+    return this.txBroadcastQueue.splice(0, count);
+  }
+
+  private async broadcastBatch(batch: TxRequest[]) {
+    const msgs = batch.map((request) => request.msg);
+    this.log("broadcast queue batch", msgs.length);
+
+    let response: TxResponse;
+    try {
+      response = await this.signAndBroadcast(msgs, batch[0].memo, { mode: "block" }) as TxResponse;
+    } catch (error) {
+      for (const request of batch) {
+        request.reject(error);
+      }
+      return;
+    }
+
+    // resolve each request with the log of its own msg
+    batch.forEach((request, index) => {
+      request.resolve({
+        ...response,
+        logs: response.logs?.filter((log) => log.msg_index === index),
+      });
+    });
+  }
+
+  private async notifySequenceRetry(info: SequenceRetryInfo) {
+    try {
+      await this.onSequenceRetry?.(info)
+    } catch (error) {
+      console.error("sequence retry callback error")
+      console.error(error)
+    }
+  }
+
   private genSignDoc(msgs: TxMsg[], memo?: string): PreSignDoc {
     const configs: NetworkConfig = NetworkConfigs[this.network];
     const preSignDoc = new PreSignDoc(configs.ChainId, memo);
@@ -1,2 +1,6 @@
+export * from "./Keystore"
+export * from "./MultisigTx"
+export * from "./OfflineTx"
+export * from "./PendingTx"
 export * from "./TradeHubSigner"
 export * from "./TradeHubWallet"
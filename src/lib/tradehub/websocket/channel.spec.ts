@@ -0,0 +1,33 @@
+import test from "ava";
+import { generateChannelId, parseChannelId } from "./channel";
+import { WSChannel, WsSubscriptionParams } from "./types";
+
+const market = "eth1_usdc1"
+const address = "tswth1qyqszqgpqyqszqgpqyqszqgpqyqszqgpjcqtuh"
+
+const CHANNEL_PARAMS: WsSubscriptionParams[] = [
+  { channel: WSChannel.candlesticks, market, resolution: "1" },
+  { channel: WSChannel.books, market },
+  { channel: WSChannel.recent_trades, market },
+  { channel: WSChannel.orders, address },
+  { channel: WSChannel.orders_by_market, market, address },
+  { channel: WSChannel.balances, address },
+  { channel: WSChannel.account_trades, address },
+  { channel: WSChannel.account_trades_by_market, market, address },
+  { channel: WSChannel.market_stats },
+  { channel: WSChannel.market_stats_by_market, market },
+  { channel: WSChannel.leverages, address },
+  { channel: WSChannel.leverages_by_market, market, address },
+  { channel: WSChannel.positions, address },
+  { channel: WSChannel.positions_by_market, market, address },
+]
+
+for (const params of CHANNEL_PARAMS) {
+  test(`parseChannelId reverses generateChannelId for ${params.channel}`, (t) => {
+    t.deepEqual(parseChannelId(generateChannelId(params)), params)
+  })
+}
+
+test("parseChannelId throws for unknown channels", (t) => {
+  t.throws(() => parseChannelId(`unknown.${market}`), "Error parsing channelId")
+})
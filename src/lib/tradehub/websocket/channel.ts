@@ -71,82 +71,109 @@ export const generateChannelId = (params: WsSubscriptionParams): string => {
 }
 
 export const parseChannelId = (rawChannelId: string): WsSubscriptionParams => {
-  const [channel, market, resolution, address] = rawChannelId.split('.')
+  // segments are positional per channel, see generateChannelId
+  const [channel, ...args] = rawChannelId.split('.')
   switch (channel) {
-    case WSChannel.candlesticks:
+    case WSChannel.candlesticks: {
+      const [market, resolution] = args
       return {
         channel,
         market,
         resolution,
       } as WsSubscribeCandlesticksParams
-    case WSChannel.books:
+    }
+    case WSChannel.books: {
+      const [market] = args
       return {
         channel,
         market,
       } as WsSubscribeBooksParams
-    case WSChannel.recent_trades:
+    }
+    case WSChannel.recent_trades: {
+      const [market] = args
       return {
         channel,
         market,
       } as WsSubscribeRecentTradesParams
-    case WSChannel.orders:
+    }
+    case WSChannel.orders: {
+      const [address] = args
       return {
         channel,
         address,
       } as WsSubscribeOrdersParams
-    case WSChannel.orders_by_market:
+    }
+    case WSChannel.orders_by_market: {
+      const [market, address] = args
       return {
         channel,
         market,
         address,
       } as WsSubscribeOrdersParams
-    case WSChannel.balances:
+    }
+    case WSChannel.balances: {
+      const [address] = args
       return {
         channel,
         address,
       } as WsSubscribeWalletBalanceParams
-    case WSChannel.account_trades:
+    }
+    case WSChannel.account_trades: {
+      const [address] = args
       return {
         channel,
         address,
       } as WsSubscribeAccountTradesParams
-    case WSChannel.account_trades_by_market:
+    }
+    case WSChannel.account_trades_by_market: {
+      const [market, address] = args
       return {
         channel,
         market,
         address,
       } as WsSubscribeAccountTradesParams
+    }
     case WSChannel.market_stats:
       return {
         channel,
       } as WsSubscribeMarketStatsParams
-    case WSChannel.market_stats_by_market:
+    case WSChannel.market_stats_by_market: {
+      const [market] = args
       return {
         channel,
         market,
       } as WsSubscribeMarketStatsParams
-    case WSChannel.leverages:
+    }
+    case WSChannel.leverages: {
+      const [address] = args
       return {
         channel,
         address,
       } as WsSubscribeLeveragesParams
-    case WSChannel.leverages_by_market:
+    }
+    case WSChannel.leverages_by_market: {
+      const [market, address] = args
       return {
         channel,
         market,
         address,
       } as WsSubscribeLeveragesParams
-    case WSChannel.positions:
+    }
+    case WSChannel.positions: {
+      const [address] = args
       return {
         channel,
         address,
       } as WsSubscribePositionsParams
-    case WSChannel.positions_by_market:
+    }
+    case WSChannel.positions_by_market: {
+      const [market, address] = args
       return {
         channel,
         market,
         address,
       } as WsSubscribePositionsParams
+    }
     default:
       throw new Error('Error parsing channelId')
   }
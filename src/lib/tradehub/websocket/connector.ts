@@ -1,5 +1,7 @@
 import NodeWebSocket from 'ws'
+import { RestModels } from '../models'
 import { generateChannelId, parseChannelId } from './channel'
+import { decodeChannelPayload } from './payload'
 import * as WSConnectorTypes from './types'
 
 // delay between pings.
@@ -14,6 +16,15 @@ const DEFAULT_TIMEOUT_HEARTBEAT = 6100
 // see WSConnector.timeoutConnect
 const DEFAULT_TIMEOUT_CONNECT = 2000
 
+// see WSConnector.timeoutRequest
+const DEFAULT_TIMEOUT_REQUEST = 30000
+
+// see WSConnector.reconnectDelay
+const DEFAULT_RECONNECT_DELAY = 1000
+
+// see WSConnector.maxReconnectDelay
+const DEFAULT_MAX_RECONNECT_DELAY = 30000
+
 export const { WSChannel } = WSConnectorTypes
 export { WSConnectorTypes }
 
@@ -21,6 +32,20 @@ export interface WSStatusChangeListener {
   (connected: boolean): void
 }
 
+/**
+ * Period in which messages of a subscribed channel may have been
+ * missed, subscribers should reload the channel state.
+ */
+export interface WSGap {
+  channel: string
+  disconnectedAt: Date
+  reconnectedAt: Date
+}
+
+export interface WSGapListener {
+  (gap: WSGap): void
+}
+
 /**
  * See WSConnector class members for description of
  * each configuration option.
@@ -31,10 +56,17 @@ export interface WSConnectorOptions {
   debugMode?: boolean
 
   timeoutConnect?: number
+  timeoutRequest?: number
 
   intervalHeartbeat?: number
   timeoutHeartbeat?: number
   disableHeartbeat?: boolean
+
+  disableReconnect?: boolean
+  reconnectDelay?: number
+  maxReconnectDelay?: number
+  maxReconnectAttempts?: number
+  replayRequests?: boolean
 }
 
 export interface WSResult<T = unknown> {
@@ -47,6 +79,12 @@ export interface WSResult<T = unknown> {
 
 interface PromiseHandler {
   requestId?: string
+
+  // sent again after reconnecting if WSConnector.replayRequests is set
+  message?: string
+
+  // timeout ID for rejecting the request, see WSConnector.timeoutRequest
+  timeout?: number
   resolve: (result?: WSResult<any>) => void
   reject: (reason?: any) => void
 }
@@ -68,12 +106,37 @@ export interface WSSubscriber {
   (result: WSResult<unknown>): void
 }
 
+/**
+ * Result of a channel message, payload is the message result decoded
+ * into BigNumber amounts on first access and throws ModelDecodeError
+ * if the result is malformed.
+ */
+export interface WSChannelResult<C extends WSConnectorTypes.WSChannel = WSConnectorTypes.WSChannel> extends WSResult<unknown> {
+  payload: WSConnectorTypes.WsChannelPayloads[C]
+}
+
+export interface WSChannelSubscriber<C extends WSConnectorTypes.WSChannel = WSConnectorTypes.WSChannel> {
+  (result: WSChannelResult<C>): void
+}
+
+/**
+ * Removes the subscriber it was returned for, see WSConnector.subscribe.
+ */
+export interface WSUnsubscribe {
+  (): void
+}
+
+interface ChannelListener {
+  handler: WSChannelSubscriber
+  onGap?: WSGapListener
+}
+
 interface PromiseHandlerCache {
   [index: string]: PromiseHandler
 }
 
 interface MessageSubscribers {
-  [index: string]: WSSubscriber
+  [index: string]: ChannelListener[]
 }
 
 /**
@@ -82,8 +145,13 @@ interface MessageSubscribers {
  *
  * Provides a synchronised way of executing requests on websocket @see {WSConnector.request}.
  *
- * Multiple subscriptions to the same channel is not supported at the moment, but would be trival
- * to implement.
+ * A channel can have multiple subscribers, the channel is unsubscribed on the server when its
+ * last subscriber unsubscribes. Subscribers joining a channel that is already subscribed do not
+ * receive the initial state sent by the server on subscribe.
+ *
+ * Reconnects with exponential backoff when an established connection is lost, subscriptions
+ * are restored and the optional gap listener of each subscription is called so the subscriber
+ * can reload state it may have missed.
  *
  * @example 
  * (async () => {
@@ -95,17 +163,20 @@ interface MessageSubscribers {
  *   await wsConnector.connect();
  *
  *   // request for data
- *   const result: WSResult<RecentTradesBody> = await wsConnector.request<RecentTradesBody>("get_recent_trades", {
+ *   const trades: RestModels.Trade[] = await wsConnector.getRecentTrades({
  *      market: "swth_eth",
  *   });
  *
  *   // subscribe to new channel
- *   await wsConnector.subscribe({ channel: WSChannel.market_stats }, (result: WSResult<MarketStats>) => {
+ *   const unsubscribeStats = wsConnector.subscribe({ channel: WSChannel.market_stats }, (result: WSResult<MarketStats>) => {
  *     console.log("received market stats", result);
  *   });
  *
- *   // unsubscribe
- *   await wsConnector.unsubscribe({ channel: WSChannel.market_stats });
+ *   // remove this subscriber only
+ *   unsubscribeStats();
+ *
+ *   // or remove all subscribers of the channel
+ *   wsConnector.unsubscribe({ channel: WSChannel.market_stats });
  *
  *   // clean up
  *   await wsConnector.disconnect();
@@ -132,11 +203,36 @@ export class WSConnector {
   // endpoint.
   timeoutConnect: number
 
+  // timeout in milliseconds before a request without response is
+  // rejected, including time spent queued while reconnecting
+  // disables timeout if value is ≤ 0
+  timeoutRequest: number
+
   // flag for disabling websocket heartbeats entirely
   // meaning websocket will not disconnect on client
   // when connection is broken
   disableHeartbeat: boolean
 
+  // flag for disabling reconnect attempts when an established
+  // connection is lost
+  disableReconnect: boolean
+
+  // delay in milliseconds before the first reconnect attempt,
+  // doubles every failed attempt up to maxReconnectDelay
+  reconnectDelay: number
+
+  // max delay in milliseconds between reconnect attempts
+  maxReconnectDelay: number
+
+  // reconnect attempts before giving up, unlimited by default
+  maxReconnectAttempts: number
+
+  // resend requests that have not received a response after
+  // reconnecting instead of rejecting them on disconnect, queued
+  // requests are rejected after timeoutRequest or once
+  // maxReconnectAttempts is reached
+  replayRequests: boolean
+
   // websocket instance
   websocket: WebSocket | null = null
 
@@ -159,9 +255,19 @@ export class WSConnector {
   // promise abstraction handlers store for WSConnector.request
   requestHandlers: PromiseHandlerCache = {}
 
-  // channel subscription handlers
+  // channel subscribers, with gap listeners called after
+  // subscriptions are restored
   channelHandlers: MessageSubscribers = {}
 
+  // failed reconnect attempts since connection was lost
+  reconnectAttempts: number = 0
+
+  // set when an established connection is lost, cleared on reconnect
+  disconnectedAt?: Date
+
+  // timeout ID for the next reconnect attempt
+  reconnectTimeout?: number
+
   // used for track ws message sequence, for some cases a out of sequence
   // message is invalid and request have to be resent.
   sequenceNumberCache: {
@@ -193,18 +299,30 @@ export class WSConnector {
       endpoint,
       debugMode = false,
       timeoutConnect = DEFAULT_TIMEOUT_CONNECT,
+      timeoutRequest = DEFAULT_TIMEOUT_REQUEST,
       intervalHeartbeat = DEFAULT_INTERVAL_HEARTBEAT,
       timeoutHeartbeat = DEFAULT_TIMEOUT_HEARTBEAT,
       disableHeartbeat = false,
+      disableReconnect = false,
+      reconnectDelay = DEFAULT_RECONNECT_DELAY,
+      maxReconnectDelay = DEFAULT_MAX_RECONNECT_DELAY,
+      maxReconnectAttempts = Infinity,
+      replayRequests = false,
       onStatusChange,
     } = options
 
     this.endpoint = endpoint
     this.debugMode = debugMode
     this.timeoutConnect = timeoutConnect
+    this.timeoutRequest = timeoutRequest
     this.intervalHeartbeat = intervalHeartbeat
     this.timeoutHeartbeat = timeoutHeartbeat
     this.disableHeartbeat = disableHeartbeat
+    this.disableReconnect = disableReconnect
+    this.reconnectDelay = reconnectDelay
+    this.maxReconnectDelay = maxReconnectDelay
+    this.maxReconnectAttempts = maxReconnectAttempts
+    this.replayRequests = replayRequests
     this.statusChangeListener = onStatusChange
   }
 
@@ -238,7 +356,12 @@ export class WSConnector {
    */
   public disconnect() {
     this.shouldConnect = false
+    this.disconnectedAt = undefined
+    this.reconnectAttempts = 0
+    clearTimeout(this.reconnectTimeout)
+
     this.disconnectWebsocket()
+    this.rejectRequests(new Error('WebSocket disconnected'))
   }
 
   /**
@@ -246,13 +369,35 @@ export class WSConnector {
    * channel ID to WebSocket server.
    * @param {WSConnectorTypes.WsSubscriptionParams | WSConnectorTypes.WsSubscriptionParams[]} params a list of parameters specifying the channels to connect to
    * @param {WSSubscriber} handler an event handler that subscribes to the websocket channels
+   * @param {WSGapListener} onGap called for each channel after the subscription is restored on reconnect
+   * @returns {WSUnsubscribe} removes this subscriber from the channels
    * 
    * @see WSConnector documentation for usage example
+   *
+   * @example
+   * // payload type follows from the channel
+   * wsConnector.subscribe({ channel: WSChannel.books, market: "swth_eth" }, (result) => {
+   *   for (const update of result.payload)
+   *     console.log(update.side, update.price.toString(10), update.quantity.toString(10))
+   * })
    */
+  public subscribe<C extends WSConnectorTypes.WSChannel>(
+    params: WSConnectorTypes.WsChannelParams[C] & { channel: C },
+    handler: WSChannelSubscriber<C>,
+    onGap?: WSGapListener,
+  ): WSUnsubscribe
   public subscribe(
     params: WSConnectorTypes.WsSubscriptionParams | WSConnectorTypes.WsSubscriptionParams[],
     handler: WSSubscriber,
-  ) {
+    onGap?: WSGapListener,
+  ): WSUnsubscribe
+  public subscribe(
+    params: WSConnectorTypes.WsSubscriptionParams | WSConnectorTypes.WsSubscriptionParams[],
+    handler: WSChannelSubscriber<any>,
+    onGap?: WSGapListener,
+  ): WSUnsubscribe {
+    const listener: ChannelListener = { handler, onGap }
+    const channelIds: string[] = []
     const channels: string[] = []
     if (!Array.isArray(params)) {
       params = [params] // eslint-disable-line no-param-reassign
@@ -260,20 +405,60 @@ export class WSConnector {
 
     for (const param of params as WSConnectorTypes.WsSubscriptionParams[]) {
       const channelId = generateChannelId(param)
-      const shouldSubscribe = this.channelHandlers[channelId] === undefined
-      this.channelHandlers[channelId] = handler
+      const listeners = this.channelHandlers[channelId] ?? []
+      if (!listeners.length) {
+        channels.push(channelId)
+      }
 
-      if (shouldSubscribe) {
+      this.channelHandlers[channelId] = [...listeners, listener]
+      channelIds.push(channelId)
+    }
+
+    // channels are subscribed on reconnect
+    if (channels.length && !this.isReconnecting()) {
+      this.send('subscribe', { channels })
+    }
+
+    let subscribed = true
+    return () => {
+      if (!subscribed) {
+        return
+      }
+      subscribed = false
+      this.removeListener(channelIds, listener)
+    }
+  }
+
+  /**
+   * Removes a subscriber from the channels, and unsubscribes channels without subscribers left.
+   * @param {string[]} channelIds - channels the subscriber was added to
+   * @param {ChannelListener} listener - the subscriber to remove
+   */
+  private removeListener(channelIds: string[], listener: ChannelListener) {
+    const channels: string[] = []
+    for (const channelId of channelIds) {
+      const listeners = this.channelHandlers[channelId]
+      if (!listeners?.includes(listener)) {
+        continue
+      }
+
+      const remaining = listeners.filter((item) => item !== listener)
+      if (remaining.length) {
+        this.channelHandlers[channelId] = remaining
+      } else {
+        delete this.channelHandlers[channelId]
         channels.push(channelId)
       }
     }
 
-    this.send('subscribe', { channels })
+    if (channels.length && this.connected) {
+      this.send('unsubscribe', { channels })
+    }
   }
 
   /**
    * Unsubscribes to the websocket channels indicated in the params, by broadcasting an unsubscribe
-   * message to these channels.
+   * message to these channels. Removes all subscribers of the channels.
    * @param {WSConnectorTypes.WsSubscriptionParams | WSConnectorTypes.WsSubscriptionParams[]} params - channel(s) to unsubcribe to
    * 
    * @see WSConnector documentation for usage example
@@ -289,6 +474,11 @@ export class WSConnector {
     for (const param of params) {
       const channelId = generateChannelId(param)
       delete this.channelHandlers[channelId]
+      channelIds.push(channelId)
+    }
+
+    if (this.isReconnecting()) {
+      return
     }
 
     this.send('unsubscribe', {
@@ -299,7 +489,7 @@ export class WSConnector {
   /**
    * Sends a message to the websocket channels.
    * @param {string} method - the type of message to send to the websocket channels. Available
-   * options: subscribe, unsubscribe, get_recent_trades, get_candlesticks, get_open_orders,
+   * options: subscribe, unsubscribe, get_recent_trades, get_candlesticks, get_order_history, get_open_orders,
    * get_account_trades, get_market_stats, get_leverages, get_open_positions, get_closed_positions
    * @param {any} params - An object containing parameters based on the specified method
    */
@@ -314,7 +504,7 @@ export class WSConnector {
   /**
    * Requests data from the server endpoint
    * @param {string} method - the type of message to send to the websocket channels. Available
-   * options: subscribe, unsubscribe, get_recent_trades, get_candlesticks, get_open_orders,
+   * options: subscribe, unsubscribe, get_recent_trades, get_candlesticks, get_order_history, get_open_orders,
    * get_account_trades, get_market_stats, get_leverages, get_open_positions, get_closed_positions
    * @param {any} params - parameters based on the specified method
    * 
@@ -324,18 +514,90 @@ export class WSConnector {
    */
   public async request<T = unknown>(method: string, params: any): Promise<WSResult<T>> {
     const requestId = `r${++this.requestIdCounter}`
-
-    this.sendMessage(JSON.stringify({
+    const message = JSON.stringify({
       id: requestId,
       method,
       params,
-    }))
+    })
+
+    // queued requests are sent once reconnected
+    if (!(this.replayRequests && this.isReconnecting())) {
+      this.sendMessage(message)
+    }
 
     return new Promise((resolve, reject) => {
-      this.requestHandlers[requestId] = { requestId, resolve, reject }
+      const handler: PromiseHandler = { requestId, message, resolve, reject }
+      if (this.timeoutRequest > 0) {
+        handler.timeout = setTimeout(() => {
+          delete this.requestHandlers[requestId]
+          reject(new Error(`WebSocket request timed out: ${method}`))
+        }, this.timeoutRequest) as unknown as number
+      }
+      this.requestHandlers[requestId] = handler
     })
   }
 
+  /**
+   * Typed wrappers of WSConnector.request, resolving to the result of
+   * the response.
+   */
+  public getRecentTrades(params: WSConnectorTypes.WsGetRecentTradesParams): Promise<RestModels.Trade[]> {
+    return this.query('get_recent_trades', { market: params.market })
+  }
+
+  public getCandlesticks(params: WSConnectorTypes.WsGetCandlesticksParams): Promise<RestModels.Candlestick[]> {
+    const { market, resolution, from, to } = params
+    return this.query('get_candlesticks', { market, resolution, from, to })
+  }
+
+  public getOrderHistory(params: WSConnectorTypes.WsGetOrderHistoryParams): Promise<RestModels.Order[]> {
+    return this.query('get_order_history', { market: params.market, address: params.address })
+  }
+
+  public getOpenOrders(params: WSConnectorTypes.WsGetOpenOrdersParams): Promise<RestModels.Order[]> {
+    return this.query('get_open_orders', { market: params.market, address: params.address })
+  }
+
+  public getAccountTrades(params: WSConnectorTypes.WsGetAccountTradesParams): Promise<RestModels.AccountTrade[]> {
+    const { market, address, page } = params
+    return this.query('get_account_trades', { market, address, page })
+  }
+
+  /**
+   * Market stats keyed by market, as sent on the market_stats channel
+   */
+  public getMarketStats(params: WSConnectorTypes.WsGetMarketStatsParams): Promise<{ [market: string]: RestModels.MarketStat }> {
+    return this.query('get_market_stats', { market: params.market })
+  }
+
+  public getLeverages(params: WSConnectorTypes.WsGetLeveragesParams): Promise<RestModels.Leverage[]> {
+    return this.query('get_leverages', { market: params.market, address: params.address })
+  }
+
+  public getOpenPositions(params: WSConnectorTypes.WsGetPositionsParams): Promise<RestModels.Position[]> {
+    return this.query('get_open_positions', { market: params.market, address: params.address })
+  }
+
+  public getClosedPositions(params: WSConnectorTypes.WsGetPositionsParams): Promise<RestModels.Position[]> {
+    return this.query('get_closed_positions', { market: params.market, address: params.address })
+  }
+
+  /**
+   * Sends a request and resolves to the result field of the response
+   */
+  private async query<T>(method: string, params: any): Promise<T> {
+    const response = await this.request<{ result: T }>(method, params)
+    return response.data.result
+  }
+
+  /**
+   * True if the connection was lost and a reconnect attempt is scheduled
+   * or in progress.
+   */
+  public isReconnecting(): boolean {
+    return this.shouldConnect && !this.connected && !!this.disconnectedAt
+  }
+
   /**
    * Sends a message to the web socket
    * @param {string | Buffer} data - the message sent to the web socket 
@@ -354,7 +616,7 @@ export class WSConnector {
     this.debugLog('WSConnector.onOpen', ev)
 
     // clear timeout for killing connect attempts
-    clearTimeout(this.timeoutConnect)
+    clearTimeout(this.initFailureTimeout)
 
     this.connected = true
     this.connectPromiseHandler?.resolve()
@@ -362,6 +624,42 @@ export class WSConnector {
 
     this.updateConnectStatus()
     this.startHeartbeat()
+
+    if (this.disconnectedAt) {
+      this.restoreSession(this.disconnectedAt)
+    }
+  }
+
+  /**
+   * Restores subscriptions and pending requests after reconnecting, and
+   * notifies subscribers of the period they may have missed messages.
+   * @param {Date} disconnectedAt - time the previous connection was lost
+   */
+  private restoreSession(disconnectedAt: Date) {
+    const reconnectedAt = new Date()
+    this.disconnectedAt = undefined
+    this.reconnectAttempts = 0
+
+    const channels = Object.keys(this.channelHandlers)
+    if (channels.length) {
+      this.send('subscribe', { channels })
+    }
+
+    for (const handler of Object.values(this.requestHandlers)) {
+      if (handler.message) {
+        this.sendMessage(handler.message)
+      }
+    }
+
+    for (const channel of channels) {
+      for (const listener of this.channelHandlers[channel] ?? []) {
+        try {
+          listener.onGap?.({ channel, disconnectedAt, reconnectedAt })
+        } catch (error) {
+          console.error(error)
+        }
+      }
+    }
   }
 
   /**
@@ -379,19 +677,19 @@ export class WSConnector {
     const message = this.parseWsMessage<unknown>(ev)
 
     if (!message.requestId && message.channel) {
-      const channelHandler = this.channelHandlers[message.channel]
-      if (!channelHandler) {
+      const listeners = this.channelHandlers[message.channel]
+      if (!listeners?.length) {
         this.debugLog(`handler not found for channel: ${message.channel}`)
+        return
+      }
+
+      for (const listener of listeners) {
         try {
-          const params = parseChannelId(message.channel)
-          this.unsubscribe({ channel: params.channel as WSConnectorTypes.WSChannel })
+          listener.handler(message.result as WSChannelResult)
         } catch (error) {
-          // ignore error
+          console.error(error)
         }
-        return
       }
-
-      channelHandler(message.result!)
       return
     }
 
@@ -405,6 +703,7 @@ export class WSConnector {
       return
     }
 
+    clearTimeout(handler.timeout)
     if (message.error) {
       handler.reject(message.error)
     } else {
@@ -420,14 +719,24 @@ export class WSConnector {
   private onError(ev: Event) {
     this.debugLog('WSConnector.onError', ev)
 
-    const handlers: PromiseHandler[] = Object.values(this.requestHandlers)
     console.error(ev)
-    const error = new Error('WebSocket error occurred')
+
+    // requests are replayed if the socket reconnects
+    if (!this.replayRequests || this.disableReconnect) {
+      this.rejectRequests(new Error('WebSocket error occurred'))
+    }
+  }
+
+  /**
+   * Rejects all requests waiting for a response
+   * @param {Error} error - the rejection reason
+   */
+  private rejectRequests(error: Error) {
+    const handlers: PromiseHandler[] = Object.values(this.requestHandlers)
+    this.requestHandlers = {}
     for (const handler of handlers) {
+      clearTimeout(handler.timeout)
       handler.reject(error)
-      if (handler.requestId) {
-        delete this.requestHandlers[handler.requestId]
-      }
     }
   }
 
@@ -438,7 +747,54 @@ export class WSConnector {
   private onClose(ev: Event) {
     this.debugLog('WSConnector.onClose', ev)
 
+    this.onConnectionLost()
+  }
+
+  /**
+   * Drops the current socket and schedules a reconnect if the connection had been established.
+   */
+  private onConnectionLost() {
+    const wasConnected = this.connected
     this.disconnectWebsocket()
+
+    if (!this.shouldConnect || this.disableReconnect || !(wasConnected || this.disconnectedAt)) {
+      if (this.connectPromiseHandler) {
+        this.rejectConnect(new Error('websocket closed before connecting'))
+      } else {
+        this.disconnect()
+      }
+      return
+    }
+
+    if (!this.disconnectedAt) {
+      this.disconnectedAt = new Date()
+    }
+    if (!this.replayRequests) {
+      this.rejectRequests(new Error('WebSocket disconnected'))
+    }
+
+    this.scheduleReconnect()
+  }
+
+  /**
+   * Schedules the next reconnect attempt, doubling the delay every attempt.
+   */
+  private scheduleReconnect() {
+    clearTimeout(this.reconnectTimeout)
+
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      console.warn(`ws reconnect failed after ${this.reconnectAttempts} attempts`)
+      this.disconnect()
+      return
+    }
+
+    const delay = Math.min(this.maxReconnectDelay, this.reconnectDelay * 2 ** this.reconnectAttempts)
+    this.debugLog(`reconnecting in ${delay}ms`)
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectAttempts += 1
+      this.connectWebSocket()
+    }, delay) as unknown as number
   }
 
   /**
@@ -494,7 +850,7 @@ export class WSConnector {
     this.debugLog('heartbeat timed out')
     console.warn('ws heartbeat missed, killing zombie connection')
 
-    this.disconnect()
+    this.onConnectionLost()
   }
 
   /**
@@ -528,18 +884,36 @@ export class WSConnector {
         this.sequenceNumberCache[channel] = sequenceNumber
       }
 
+      const result: WSResult<T> = {
+        requestId: id,
+        channel,
+        timestamp: new Date(),
+        outOfSequence,
+        data: rest,
+      }
+
+      // see WSChannelResult.payload
+      if (!id && channel) {
+        let payload: unknown
+        let decoded = false
+        Object.defineProperty(result, 'payload', {
+          enumerable: true,
+          get: () => {
+            if (!decoded) {
+              payload = decodeChannelPayload(channel, rest.result)
+              decoded = true
+            }
+            return payload
+          },
+        })
+      }
+
       return {
         requestId: id,
         channel,
         sequenceNumber,
         error: error as WSError,
-        result: {
-          requestId: id,
-          channel,
-          timestamp: new Date(),
-          outOfSequence,
-          data: rest,
-        },
+        result,
       }
     } catch (error) {
       console.error(error)
@@ -554,16 +928,27 @@ export class WSConnector {
   private rejectConnect(error: Error) {
     clearTimeout(this.initFailureTimeout)
 
+    // retry until the reconnect attempts are exhausted
+    if (this.shouldConnect && this.disconnectedAt) {
+      this.onConnectionLost()
+      return
+    }
+
     this.connectPromiseHandler?.reject(error)
     this.connectPromiseHandler = null
+    this.disconnect()
   }
 
   /**
    * Disconnects the connection with the websocket
    */
   private disconnectWebsocket() {
+    clearTimeout(this.initFailureTimeout)
+
+    const websocket = this.websocket
+    this.websocket = null
     try {
-      this.websocket?.close()
+      websocket?.close()
     } catch (e) {
       // ignore error on disconnect
     } finally {
@@ -584,29 +969,35 @@ export class WSConnector {
    * Initialises a new WebSocket instance with the specified endpoint.
    */
   private connectWebSocket() {
-    this.disconnect()
+    this.disconnectWebsocket()
 
     try {
+      // ignore events of sockets replaced by a newer connection
+      const bindSocket = <T>(socket: any, listener: (ev: T) => void) => (ev: T) => {
+        if (this.websocket === socket) {
+          listener.call(this, ev)
+        }
+      }
+
       if (typeof WebSocket !== 'undefined') {
         // this works on browsers js vm
         const websocket = new WebSocket(this.endpoint)
-        websocket.onopen = this.onOpen.bind(this)
-        websocket.onclose = this.onClose.bind(this)
-        websocket.onerror = this.onError.bind(this)
-        websocket.onmessage = this.onMessage.bind(this)
+        websocket.onopen = bindSocket(websocket, this.onOpen)
+        websocket.onclose = bindSocket(websocket, this.onClose)
+        websocket.onerror = bindSocket(websocket, this.onError)
+        websocket.onmessage = bindSocket(websocket, this.onMessage)
 
         this.websocket = websocket
       } else {
         // and this works on nodejs vm
         const websocket = new NodeWebSocket(this.endpoint)
-        websocket.on('open', this.onOpen.bind(this))
-        websocket.on('close', this.onClose.bind(this))
-        websocket.on('error', this.onError.bind(this))
-        websocket.on('message', (data: string) => this.onMessage({ data } as MessageEvent))
+        websocket.on('open', bindSocket(websocket, this.onOpen))
+        websocket.on('close', bindSocket(websocket, this.onClose))
+        websocket.on('error', bindSocket(websocket, this.onError))
+        websocket.on('message', bindSocket(websocket, (data: string) => this.onMessage({ data } as MessageEvent)))
 
-        this.websocket = websocket
+        this.websocket = websocket as unknown as WebSocket
       }
-      this.requestHandlers = {}
 
       // set timeout to kill websocket instantiation attempt
       // because error for constructor cannot be caught
@@ -1 +1,3 @@
 export * from './connector'
+export * from './orderbook'
+export * from './payload'
@@ -0,0 +1,398 @@
+import BigNumber from 'bignumber.js'
+import { APIClient } from '../api'
+import { RestModels } from '../models'
+import { generateChannelId } from './channel'
+import { WSChannelResult, WSConnector, WSUnsubscribe } from './connector'
+import { WSChannel } from './types'
+
+// see OrderBookReplicaOptions.resyncDelay
+const DEFAULT_RESYNC_DELAY = 1000
+
+export type OrderBookSide = 'buy' | 'sell'
+
+export interface OrderBookLevel {
+  price: BigNumber
+  quantity: BigNumber
+}
+
+export interface OrderBookChange extends OrderBookLevel {
+  side: OrderBookSide
+
+  // zero if the level was removed
+  quantity: BigNumber
+}
+
+/**
+ * snapshot: book was replaced, changes lists every level of the new book
+ * update: levels changed by a books channel message
+ * gap: messages were missed, the book is stale until the next snapshot
+ */
+export interface OrderBookEvent {
+  type: 'snapshot' | 'update' | 'gap'
+  changes: OrderBookChange[]
+}
+
+export interface OrderBookListener {
+  (event: OrderBookEvent, replica: OrderBookReplica): void
+}
+
+/**
+ * See OrderBookReplica class members for description of
+ * each configuration option.
+ */
+export interface OrderBookReplicaOptions {
+  market: string
+  ws: WSConnector
+  api: APIClient
+  onError?: (error: Error) => void
+
+  resyncDelay?: number
+}
+
+interface BookRow {
+  side: OrderBookSide
+  price: BigNumber
+
+  // zero if the level was removed
+  quantity: BigNumber
+}
+
+/**
+ * Local copy of a market order book, kept up to date with the books
+ * websocket channel.
+ *
+ * The first message after subscribing is the full book sent by the
+ * server, later messages set the quantity of changed price levels.
+ * Sequence gaps and out of sequence messages trigger a new snapshot
+ * from APIClient.getOrderbook, and the book is restored from the
+ * server snapshot after WSConnector reconnects.
+ *
+ * @example
+ * const replica = new OrderBookReplica({ market: 'swth_eth', ws: wsConnector, api: sdk.api })
+ * replica.subscribe((event) => console.log(event.type, replica.getBestBid(), replica.getBestAsk()))
+ * await replica.start()
+ *
+ * // clean up
+ * replica.stop()
+ */
+export class OrderBookReplica {
+  market: string
+
+  ws: WSConnector
+
+  api: APIClient
+
+  // delay in milliseconds before a failed snapshot request is retried
+  resyncDelay: number
+
+  // called when a snapshot request fails
+  errorListener?: (error: Error) => void
+
+  // true once the first snapshot is applied, false after stop
+  ready: boolean = false
+
+  // quantities keyed by price
+  bids: Map<string, BigNumber> = new Map()
+  asks: Map<string, BigNumber> = new Map()
+
+  // sequence number of the last books message applied
+  lastSequence?: number
+
+  private channelId: string
+  private listeners: OrderBookListener[] = []
+  private unsubscribeChannel?: WSUnsubscribe
+  private awaitingSnapshot: boolean = false
+  private resyncing: boolean = false
+  private resyncAgain: boolean = false
+  private resyncTimeout?: ReturnType<typeof setTimeout>
+  private buffer: BookRow[][] = []
+
+  // incremented by stop, resyncs started before stop are discarded
+  private generation: number = 0
+  private readyHandlers: Array<{ resolve: () => void, reject: (error: Error) => void }> = []
+
+  constructor(options: OrderBookReplicaOptions) {
+    this.market = options.market
+    this.ws = options.ws
+    this.api = options.api
+    this.errorListener = options.onError
+    this.resyncDelay = options.resyncDelay ?? DEFAULT_RESYNC_DELAY
+    this.channelId = generateChannelId({ channel: WSChannel.books, market: this.market })
+  }
+
+  /**
+   * Subscribes to the books channel, resolves once the first snapshot
+   * is applied, rejects if the replica is stopped before that.
+   */
+  public async start(): Promise<void> {
+    if (!this.unsubscribeChannel) {
+      // the server only sends the full book to the first subscriber of a channel
+      const isSubscribed = !!this.ws.channelHandlers[this.channelId]?.length
+
+      this.awaitingSnapshot = !isSubscribed
+      this.unsubscribeChannel = this.ws.subscribe(
+        { channel: WSChannel.books, market: this.market },
+        (result) => this.onMessage(result),
+        () => this.onReconnect(),
+      )
+
+      if (isSubscribed) {
+        this.resync()
+      }
+    }
+
+    if (this.ready) {
+      return
+    }
+    return new Promise((resolve, reject) => this.readyHandlers.push({ resolve, reject }))
+  }
+
+  /**
+   * Unsubscribes from the books channel and clears the book, listeners
+   * are kept and receive events again if the replica is restarted.
+   */
+  public stop() {
+    this.unsubscribeChannel?.()
+    this.unsubscribeChannel = undefined
+    clearTimeout(this.resyncTimeout)
+    this.generation += 1
+
+    this.ready = false
+    this.awaitingSnapshot = false
+    this.resyncing = false
+    this.resyncAgain = false
+    this.buffer = []
+    this.lastSequence = undefined
+    this.bids.clear()
+    this.asks.clear()
+
+    const handlers = this.readyHandlers
+    this.readyHandlers = []
+    handlers.forEach(({ reject }) => reject(new Error('order book replica stopped')))
+  }
+
+  /**
+   * Adds a listener for book changes, returns a function that removes it.
+   */
+  public subscribe(listener: OrderBookListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter((item) => item !== listener)
+    }
+  }
+
+  /**
+   * Replaces the book with a snapshot from APIClient.getOrderbook,
+   * books messages received while the snapshot is requested are
+   * applied after it.
+   *
+   * Messages received before the request are discarded, as levels
+   * may have changed in messages that were missed. The snapshot is
+   * requested again if messages are missed while it is requested.
+   */
+  public async resync(): Promise<void> {
+    if (this.resyncing) {
+      this.resyncAgain = true
+      return
+    }
+
+    const generation = this.generation
+    clearTimeout(this.resyncTimeout)
+    this.resyncing = true
+    this.emit({ type: 'gap', changes: [] })
+
+    try {
+      do {
+        this.resyncAgain = false
+
+        // messages carry the latest quantity of their levels, so
+        // messages received after the request started are at least
+        // as recent as the snapshot
+        this.buffer = []
+        const orderbook = await this.api.getOrderbook({ market: this.market })
+        if (generation !== this.generation || !this.unsubscribeChannel) {
+          // stopped while waiting for the snapshot
+          return
+        }
+
+        const toRow = (side: OrderBookSide) => (row: RestModels.OrderBookRow): BookRow => ({
+          side,
+          price: new BigNumber(row.price),
+          quantity: new BigNumber(row.quantity),
+        })
+        const rows: BookRow[] = [
+          ...(orderbook.asks ?? []).map(toRow('sell')),
+          ...(orderbook.bids ?? []).map(toRow('buy')),
+        ]
+        this.applySnapshot(rows)
+      } while (this.resyncAgain)
+    } catch (error) {
+      if (generation !== this.generation || !this.unsubscribeChannel) {
+        return
+      }
+
+      this.errorListener?.(error)
+      this.resyncTimeout = setTimeout(() => this.resync(), this.resyncDelay)
+    } finally {
+      // a resync started after restarting owns the flag
+      if (generation === this.generation) {
+        this.resyncing = false
+      }
+    }
+  }
+
+  /**
+   * Bids sorted from the highest price
+   * @param {number} depth - max number of levels to return
+   */
+  public getBids(depth?: number): OrderBookLevel[] {
+    return this.getLevels(this.bids, (a, b) => b.price.comparedTo(a.price), depth)
+  }
+
+  /**
+   * Asks sorted from the lowest price
+   * @param {number} depth - max number of levels to return
+   */
+  public getAsks(depth?: number): OrderBookLevel[] {
+    return this.getLevels(this.asks, (a, b) => a.price.comparedTo(b.price), depth)
+  }
+
+  public getBestBid(): OrderBookLevel | undefined {
+    return this.getBids(1)[0]
+  }
+
+  public getBestAsk(): OrderBookLevel | undefined {
+    return this.getAsks(1)[0]
+  }
+
+  /**
+   * Quantity at the price level, zero if there are no orders at the price.
+   */
+  public getDepth(side: OrderBookSide, price: BigNumber.Value): BigNumber {
+    const levels = side === 'buy' ? this.bids : this.asks
+    return levels.get(new BigNumber(price).toString(10)) ?? new BigNumber(0)
+  }
+
+  /**
+   * Total quantity at the price and better prices, i.e. bids at or above
+   * the price, or asks at or below the price.
+   */
+  public getCumulativeDepth(side: OrderBookSide, price: BigNumber.Value): BigNumber {
+    const limit = new BigNumber(price)
+    const levels = side === 'buy'
+      ? this.getBids().filter((level) => level.price.gte(limit))
+      : this.getAsks().filter((level) => level.price.lte(limit))
+    return levels.reduce((total, level) => total.plus(level.quantity), new BigNumber(0))
+  }
+
+  private onMessage(result: WSChannelResult<WSChannel.books>) {
+    const sequence = this.ws.sequenceNumberCache[this.channelId]
+
+    if (result.outOfSequence) {
+      this.resync()
+      return
+    }
+
+    const isGap = this.lastSequence !== undefined && sequence > this.lastSequence + 1
+    this.lastSequence = sequence
+
+    let rows: BookRow[]
+    try {
+      rows = result.payload
+    } catch (error) {
+      // treat malformed messages as missed
+      this.errorListener?.(error)
+      this.awaitingSnapshot = false
+      this.resync()
+      return
+    }
+
+    if (this.awaitingSnapshot) {
+      this.awaitingSnapshot = false
+      this.applySnapshot(rows)
+      return
+    }
+
+    if (this.resyncing || isGap) {
+      this.buffer.push(rows)
+      if (isGap) {
+        this.resync()
+      }
+      return
+    }
+
+    if (!this.ready) {
+      return
+    }
+
+    this.emit({ type: 'update', changes: this.applyRows(rows) })
+  }
+
+  private onReconnect() {
+    // the server sends the full book again after resubscribing
+    this.lastSequence = undefined
+    this.awaitingSnapshot = true
+    this.emit({ type: 'gap', changes: [] })
+  }
+
+  private applySnapshot(rows: BookRow[]) {
+    this.bids.clear()
+    this.asks.clear()
+    this.applyRows(rows)
+
+    // buffered rows set the latest quantity of their levels
+    for (const buffered of this.buffer) {
+      this.applyRows(buffered)
+    }
+    this.buffer = []
+
+    const changes: OrderBookChange[] = [
+      ...this.getBids().map((level) => ({ ...level, side: 'buy' as OrderBookSide })),
+      ...this.getAsks().map((level) => ({ ...level, side: 'sell' as OrderBookSide })),
+    ]
+    this.emit({ type: 'snapshot', changes })
+
+    if (!this.ready) {
+      this.ready = true
+      const handlers = this.readyHandlers
+      this.readyHandlers = []
+      handlers.forEach(({ resolve }) => resolve())
+    }
+  }
+
+  private applyRows(rows: BookRow[]): OrderBookChange[] {
+    const changes: OrderBookChange[] = []
+    for (const row of rows) {
+      const levels = row.side === 'buy' ? this.bids : this.asks
+      const { price, quantity } = row
+      if (!price.isFinite() || !quantity.isFinite()) {
+        continue
+      }
+
+      if (quantity.isZero()) {
+        levels.delete(price.toString(10))
+      } else {
+        levels.set(price.toString(10), quantity)
+      }
+      changes.push({ side: row.side, price, quantity })
+    }
+    return changes
+  }
+
+  private getLevels(levels: Map<string, BigNumber>, compare: (a: OrderBookLevel, b: OrderBookLevel) => number, depth?: number): OrderBookLevel[] {
+    const result: OrderBookLevel[] = []
+    levels.forEach((quantity, price) => result.push({ price: new BigNumber(price), quantity }))
+    result.sort(compare)
+    return depth === undefined ? result : result.slice(0, depth)
+  }
+
+  private emit(event: OrderBookEvent) {
+    for (const listener of this.listeners) {
+      try {
+        listener(event, this)
+      } catch (error) {
+        console.error(error)
+      }
+    }
+  }
+}
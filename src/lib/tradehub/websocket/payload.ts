@@ -0,0 +1,41 @@
+import { ParsedModels, WSResponse } from '../models'
+import { WSChannel, WsChannelPayloads } from './types'
+
+const decodeList = <T, R>(decode: (input: T) => R) => (input: T[] | null): R[] => (input ?? []).map(decode)
+
+const decodeMarketStats = (input: { [market: string]: any }) => {
+  const output: WsChannelPayloads[WSChannel.market_stats] = {}
+  for (const market in input ?? {}) {
+    output[market] = ParsedModels.decodeMarketStat(input[market])
+  }
+  return output
+}
+
+const ChannelDecoders: { [C in WSChannel]: (input: any) => WsChannelPayloads[C] } = {
+  [WSChannel.candlesticks]: ParsedModels.decodeCandlestick,
+  [WSChannel.books]: decodeList(WSResponse.decodeBookUpdate),
+  [WSChannel.recent_trades]: decodeList(ParsedModels.decodeTrade),
+  [WSChannel.orders]: decodeList(ParsedModels.decodeOrder),
+  [WSChannel.orders_by_market]: decodeList(ParsedModels.decodeOrder),
+  [WSChannel.balances]: ParsedModels.decodeBalances,
+  [WSChannel.account_trades]: decodeList(ParsedModels.decodeAccountTrade),
+  [WSChannel.account_trades_by_market]: decodeList(ParsedModels.decodeAccountTrade),
+  [WSChannel.market_stats]: decodeMarketStats,
+  [WSChannel.market_stats_by_market]: decodeMarketStats,
+  [WSChannel.leverages]: decodeList(ParsedModels.decodeLeverage),
+  [WSChannel.leverages_by_market]: decodeList(ParsedModels.decodeLeverage),
+  [WSChannel.positions]: decodeList(ParsedModels.decodePosition),
+  [WSChannel.positions_by_market]: decodeList(ParsedModels.decodePosition),
+}
+
+/**
+ * Decodes the result of a channel message into BigNumber amounts,
+ * throws ModelDecodeError if the result is malformed.
+ * @param {string} channelId - channel of the message, e.g. books.swth_eth
+ * @param {any} result - result field of the message
+ */
+export const decodeChannelPayload = <C extends WSChannel>(channelId: string, result: any): WsChannelPayloads[C] | undefined => {
+  const channel = channelId.split('.')[0] as C
+  const decoder = ChannelDecoders[channel] as ((input: any) => WsChannelPayloads[C]) | undefined
+  return decoder?.(result)
+}
@@ -1,3 +1,5 @@
+import { ParsedModels, WSResponse } from "../models"
+
 export enum WSChannel {
   candlesticks = 'candlesticks',
   books = 'books',
@@ -117,3 +119,43 @@ export type WsSubscriptionParams =
   | WsSubscribeLeveragesParams
   | WsSubscribePositionsParams
   | WsUnsubscribeCandlesticksParams
+
+/**
+ * Subscription params of each channel.
+ */
+export interface WsChannelParams {
+  [WSChannel.candlesticks]: WsSubscribeCandlesticksParams
+  [WSChannel.books]: WsSubscribeBooksParams
+  [WSChannel.recent_trades]: WsSubscribeRecentTradesParams
+  [WSChannel.orders]: WsSubscribeOrdersParams
+  [WSChannel.orders_by_market]: WsSubscribeOrdersParams
+  [WSChannel.balances]: WsSubscribeWalletBalanceParams
+  [WSChannel.account_trades]: WsSubscribeAccountTradesParams
+  [WSChannel.account_trades_by_market]: WsSubscribeAccountTradesParams
+  [WSChannel.market_stats]: WsSubscribeMarketStatsParams
+  [WSChannel.market_stats_by_market]: WsSubscribeMarketStatsParams
+  [WSChannel.leverages]: WsSubscribeLeveragesParams
+  [WSChannel.leverages_by_market]: WsSubscribeLeveragesParams
+  [WSChannel.positions]: WsSubscribePositionsParams
+  [WSChannel.positions_by_market]: WsSubscribePositionsParams
+}
+
+/**
+ * Decoded payload of each channel, see WSChannelResult.payload.
+ */
+export interface WsChannelPayloads {
+  [WSChannel.candlesticks]: ParsedModels.Candlestick
+  [WSChannel.books]: WSResponse.BookUpdate[]
+  [WSChannel.recent_trades]: ParsedModels.Trade[]
+  [WSChannel.orders]: ParsedModels.Order[]
+  [WSChannel.orders_by_market]: ParsedModels.Order[]
+  [WSChannel.balances]: ParsedModels.Balances
+  [WSChannel.account_trades]: ParsedModels.AccountTrade[]
+  [WSChannel.account_trades_by_market]: ParsedModels.AccountTrade[]
+  [WSChannel.market_stats]: { [market: string]: ParsedModels.MarketStat }
+  [WSChannel.market_stats_by_market]: { [market: string]: ParsedModels.MarketStat }
+  [WSChannel.leverages]: ParsedModels.Leverage[]
+  [WSChannel.leverages_by_market]: ParsedModels.Leverage[]
+  [WSChannel.positions]: ParsedModels.Position[]
+  [WSChannel.positions_by_market]: ParsedModels.Position[]
+}
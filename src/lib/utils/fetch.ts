@@ -1,12 +1,120 @@
 import nodeFetch from 'node-fetch'
 
-export default function fetch(
-  url: string,
-  init?: RequestInit,
-): Promise<Response> {
+export const DEFAULT_REQUEST_TIMEOUT = 30000
+
+export interface RequestCallOpts {
+  /**
+   * Aborts the request when the signal is aborted.
+   */
+  signal?: AbortSignal
+
+  /**
+   * Duration in milliseconds before the request is aborted
+   * with RequestTimeoutError.
+   */
+  timeout?: number
+}
+
+export type FetchInit = RequestInit & {
+  timeout?: number
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(
+    public readonly timeout: number,
+    public readonly url?: string,
+  ) {
+    super(`request timed out after ${timeout}ms${url ? `: ${url}` : ''}`)
+    this.name = 'RequestTimeoutError'
+  }
+}
+
+export class RequestAbortedError extends Error {
+  constructor(message: string = 'request aborted') {
+    super(message)
+    // follows the fetch abort error name
+    this.name = 'AbortError'
+  }
+}
+
+export const isAbortError = (error: any): boolean => {
+  return error?.name === 'AbortError'
+}
+
+/**
+ * Rejects with RequestTimeoutError if the promise does not settle
+ * before the timeout, or RequestAbortedError if the signal is aborted.
+ *
+ * Used for requests made through third party clients that do not
+ * accept an AbortSignal, the underlying request is not cancelled.
+ */
+export const withTimeout = <T>(promise: Promise<T>, opts: RequestCallOpts = {}, url?: string): Promise<T> => {
+  const { signal, timeout } = opts
+  if (!signal && !timeout)
+    return promise
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted)
+      return reject(new RequestAbortedError())
+
+    const onAbort = () => finish(() => reject(new RequestAbortedError()))
+    const timer = timeout ? setTimeout(() => finish(() => reject(new RequestTimeoutError(timeout, url))), timeout) : undefined
+
+    const finish = (callback: () => void) => {
+      if (timer) clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+      callback()
+    }
+
+    signal?.addEventListener('abort', onAbort)
+    promise.then(
+      (result) => finish(() => resolve(result)),
+      (error) => finish(() => reject(error)),
+    )
+  })
+}
+
+const doFetch = (url: string, init?: RequestInit): Promise<Response> => {
   if (typeof window !== 'undefined' && window.fetch) {
     return window.fetch(url, { ...init })
   } else {
     return nodeFetch(url, init as any) as unknown as Promise<Response>
   }
 }
+
+export default async function fetch(
+  url: string,
+  init?: FetchInit,
+): Promise<Response> {
+  const { timeout, ...requestInit } = init ?? {}
+  if (!timeout)
+    return doFetch(url, requestInit)
+
+  if (typeof AbortController === 'undefined')
+    return withTimeout(doFetch(url, requestInit), { timeout, signal: requestInit.signal ?? undefined }, url)
+
+  // aborts the request on timeout or when the caller signal is aborted
+  const controller = new AbortController()
+  const signal = requestInit.signal
+  const onAbort = () => controller.abort()
+  if (signal?.aborted)
+    controller.abort()
+  signal?.addEventListener('abort', onAbort)
+
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeout)
+
+  try {
+    return await doFetch(url, { ...requestInit, signal: controller.signal })
+  } catch (error) {
+    if (timedOut)
+      throw new RequestTimeoutError(timeout, url)
+    throw error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Entry point of MockTradeHubNode, kept out of the main entry as it
+ * depends on the node http and ws servers.
+ *
+ * @example
+ * import { MockTradeHubNode } from "tradehub-api-js/build/main/mock"
+ */
+export * from './lib/tradehub/mock'